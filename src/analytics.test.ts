@@ -0,0 +1,160 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  SCORE_RANGES,
+  countAboveScore,
+  fitPoolDensity,
+  fitTrend,
+  linearRegression,
+  movingAvgRegression,
+  polyRegression,
+  projectedCrossing,
+  scoreForCount,
+  type Point,
+} from "./analytics.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+const START = Date.UTC(2025, 0, 6);
+
+const weekly = (ys: number[]): Point[] => ys.map((y, i) => ({ x: START + i * WEEK, y }));
+
+// A pool shaped like IRCC's: thin at both ends, densest in the 351-450 ranges
+const SNAPSHOT = {
+  ranges: {
+    "601-1200": 400,
+    "501-600": 15000,
+    "491-500": 2500,
+    "481-490": 9000,
+    "471-480": 8000,
+    "461-470": 7500,
+    "451-460": 8000,
+    "441-450": 7000,
+    "431-440": 6500,
+    "421-430": 6000,
+    "411-420": 5500,
+    "401-410": 5000,
+    "351-400": 50000,
+    "301-350": 18000,
+    "0-300": 8000,
+  } as Record<string, number>,
+};
+const TOTAL = Object.values(SNAPSHOT.ranges).reduce((s, n) => s + n, 0);
+
+describe("linearRegression", () => {
+  it("needs at least two points", () => {
+    assert.equal(linearRegression([]), null);
+    assert.equal(linearRegression([{ x: START, y: 500 }]), null);
+  });
+
+  it("returns null when every x is the same", () => {
+    assert.equal(linearRegression([{ x: START, y: 480 }, { x: START, y: 520 }]), null);
+  });
+
+  it("fits a line exactly", () => {
+    const reg = linearRegression(weekly([520, 510, 500]))!;
+    assert.ok(Math.abs(reg.eval(START + 3 * WEEK) - 490) < 1e-6);
+  });
+});
+
+describe("polyRegression", () => {
+  it("falls back to a line for fewer than 4 points", () => {
+    const pts = weekly([520, 505, 508]);
+    const poly = polyRegression(pts)!;
+    const line = linearRegression(pts)!;
+    for (const t of [START, START + 5 * WEEK, START + 20 * WEEK]) {
+      assert.equal(poly.eval(t), line.eval(t));
+    }
+    assert.equal(polyRegression(pts.slice(0, 1)), null);
+  });
+
+  it("returns null rather than dividing by zero when every x is the same", () => {
+    const pts = [480, 490, 500, 510, 520].map((y) => ({ x: START, y }));
+    assert.equal(polyRegression(pts), null);
+  });
+
+  it("recovers a quadratic", () => {
+    const pts = weekly([0, 1, 2, 3, 4, 5, 6].map((i) => 450 + (i - 3) * (i - 3)));
+    const reg = polyRegression(pts)!;
+    assert.ok(Math.abs(reg.eval(START + 8 * WEEK) - 475) < 1e-6);
+  });
+});
+
+describe("fitTrend", () => {
+  it("returns null for a moving average shorter than its window", () => {
+    assert.equal(movingAvgRegression(weekly([500, 501, 502, 503, 504])), null);
+    assert.equal(fitTrend(weekly([500, 501, 502, 503, 504]), "moving-avg"), null);
+  });
+
+  it("has no prediction spread without spare degrees of freedom", () => {
+    const trend = fitTrend(weekly([520, 510]), "linear")!;
+    assert.equal(trend.spread, null);
+  });
+});
+
+describe("pool density", () => {
+  it("counts nobody in an empty snapshot", () => {
+    const empty = { ranges: {} };
+    for (const score of [0, 1, 450, 600, 1200, 1201]) {
+      assert.deepEqual(fitPoolDensity(empty).above(score), { estimate: 0, low: 0, high: 0 });
+      assert.equal(countAboveScore(empty, score), 0);
+    }
+    assert.equal(scoreForCount(empty, 100), 0);
+  });
+
+  it("matches the published counts at range edges", () => {
+    let above = 0;
+    for (const { label, lo } of SCORE_RANGES) {
+      above += SNAPSHOT.ranges[label];
+      assert.deepEqual(fitPoolDensity(SNAPSHOT).above(lo), { estimate: above, low: above, high: above });
+    }
+    assert.equal(above, TOTAL);
+  });
+
+  it("keeps the estimate inside its bounds and never rises with the score", () => {
+    let previous = Infinity;
+    for (let score = 0; score <= 1201; score++) {
+      const { estimate, low, high } = fitPoolDensity(SNAPSHOT).above(score);
+      assert.ok(low <= estimate && estimate <= high, `bounds at ${score}`);
+      assert.ok(estimate <= previous, `monotone at ${score}`);
+      previous = estimate;
+    }
+  });
+});
+
+describe("scoreForCount", () => {
+  it("finds the lowest score with at most that many candidates above", () => {
+    for (const candidates of [500, 3000, 20000, 100000]) {
+      const score = scoreForCount(SNAPSHOT, candidates);
+      assert.ok(countAboveScore(SNAPSHOT, score) <= candidates);
+      assert.ok(countAboveScore(SNAPSHOT, score - 1) > candidates);
+    }
+  });
+
+  it("returns 0 when the whole pool fits", () => {
+    assert.equal(scoreForCount(SNAPSHOT, TOTAL), 0);
+  });
+});
+
+describe("projectedCrossing", () => {
+  it("follows the CRS trend when there are no snapshots", () => {
+    const rounds = weekly([520, 519, 518, 517, 516, 515, 514, 513, 512, 511]);
+    const range = projectedCrossing(rounds, 500, "linear", [])!;
+    assert.equal(range.poolAware, false);
+    // 511 falls to 500 eleven weeks after the last round
+    const expected = rounds[rounds.length - 1].x + 11 * WEEK;
+    assert.ok(Math.abs(range.center - expected) <= WEEK);
+    assert.equal(range.start, range.center);
+    assert.equal(range.end, range.center);
+  });
+
+  it("returns null without rounds or a usable trend", () => {
+    assert.equal(projectedCrossing([], 500, "linear", []), null);
+    assert.equal(projectedCrossing(weekly([510]), 500, "linear", []), null);
+    assert.equal(projectedCrossing(weekly([510, 511, 512]), 500, "moving-avg", []), null);
+  });
+
+  it("returns null when the trend moves away from the score", () => {
+    assert.equal(projectedCrossing(weekly([500, 510, 520, 530]), 480, "linear", []), null);
+  });
+});
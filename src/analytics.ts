@@ -0,0 +1,427 @@
+import type { DistributionSnapshot, ProjectionMethod, ScoreDistribution } from "./types.js";
+
+// Pool and projection math shared by Node scripts and the page. generate.ts compiles
+// this file into the page's script as the `Analytics` global, so it must stay
+// self-contained: type-only imports, no runtime imports, no Node APIs.
+
+/** Pool score ranges, highest first, with the ScoreDistribution field holding each */
+export const SCORE_RANGES: Array<{ label: string; key: keyof ScoreDistribution; lo: number; hi: number }> = [
+  { label: "601-1200", key: "range601_1200", lo: 601, hi: 1200 },
+  { label: "501-600", key: "range501_600", lo: 501, hi: 600 },
+  { label: "491-500", key: "range491_500", lo: 491, hi: 500 },
+  { label: "481-490", key: "range481_490", lo: 481, hi: 490 },
+  { label: "471-480", key: "range471_480", lo: 471, hi: 480 },
+  { label: "461-470", key: "range461_470", lo: 461, hi: 470 },
+  { label: "451-460", key: "range451_460", lo: 451, hi: 460 },
+  { label: "441-450", key: "range441_450", lo: 441, hi: 450 },
+  { label: "431-440", key: "range431_440", lo: 431, hi: 440 },
+  { label: "421-430", key: "range421_430", lo: 421, hi: 430 },
+  { label: "411-420", key: "range411_420", lo: 411, hi: 420 },
+  { label: "401-410", key: "range401_410", lo: 401, hi: 410 },
+  { label: "351-400", key: "range351_400", lo: 351, hi: 400 },
+  { label: "301-350", key: "range301_350", lo: 301, hi: 350 },
+  { label: "0-300", key: "range0_300", lo: 0, hi: 300 },
+];
+
+/** The projection toggle's trend models */
+export type TrendMode = ProjectionMethod;
+
+export interface Point {
+  x: number; // timestamp, ms
+  y: number;
+}
+
+/** A round as the projections see it: timestamp, CRS cutoff and draw size */
+export interface RoundPoint extends Point {
+  invitations?: number;
+}
+
+export interface Regression {
+  eval: (x: number) => number;
+}
+
+export interface Trend {
+  reg: Regression;
+  spread: ((t: number) => number) | null; // standard error of a new observation at t
+}
+
+/** When a trend reaches a threshold: central estimate and the 80% interval around it */
+export interface CrossingRange {
+  center: number;
+  start: number | null;
+  end: number | null; // null when the pessimistic edge doesn't get there within 3 years
+  poolAware: boolean;
+}
+
+export type SnapshotLike = Pick<DistributionSnapshot, "date" | "ranges">;
+
+export const MOVING_AVG_WINDOW = 6;
+
+// Two-sided normal quantiles, widest first so the narrower band draws on top
+export const PREDICTION_BANDS = [
+  { level: 95, z: 1.96 },
+  { level: 80, z: 1.2816 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ========== Regression ==========
+
+/** Least-squares line y = slope * x + intercept; null for fewer than 2 points or all x equal */
+export function linearRegression(pts: Point[]): Regression | null {
+  const n = pts.length;
+  if (n < 2) return null;
+  // Centre on the means: n·Σx² − (Σx)² on raw timestamps cancels badly and
+  // leaves a non-zero determinant even when every x is the same
+  let mx = 0, my = 0;
+  for (const p of pts) { mx += p.x; my += p.y; }
+  mx /= n; my /= n;
+  let sxy = 0, sxx = 0;
+  for (const p of pts) { sxy += (p.x - mx) * (p.y - my); sxx += (p.x - mx) ** 2; }
+  if (sxx < 1e-10) return null;
+  const slope = sxy / sxx;
+  return { eval: (x) => slope * (x - mx) + my };
+}
+
+function det3(m: number[][]): number {
+  return m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1])
+       - m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0])
+       + m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+}
+
+/**
+ * Quadratic fit on timestamps normalised to 0..1 (raw milliseconds overflow the
+ * normal equations). Falls back to a line for n < 4 or a singular system.
+ */
+export function polyRegression(pts: Point[]): Regression | null {
+  const n = pts.length;
+  if (n < 4) return linearRegression(pts);
+  const xMin = pts[0].x;
+  const xRange = pts[n - 1].x - xMin || 1;
+
+  let s1 = 0, s2 = 0, s3 = 0, s4 = 0, t0 = 0, t1 = 0, t2 = 0;
+  for (const p of pts) {
+    const x = (p.x - xMin) / xRange, x2 = x * x;
+    s1 += x; s2 += x2; s3 += x2 * x; s4 += x2 * x2;
+    t0 += p.y; t1 += x * p.y; t2 += x2 * p.y;
+  }
+  // Cramer's rule on the normal equations
+  const M = [
+    [n, s1, s2],
+    [s1, s2, s3],
+    [s2, s3, s4],
+  ];
+  const T = [t0, t1, t2];
+  const D = det3(M);
+  if (Math.abs(D) < 1e-20) return linearRegression(pts);
+  const replCol = (col: number) => M.map((row, i) => row.map((v, j) => (j === col ? T[i] : v)));
+  const c = det3(replCol(0)) / D;
+  const b = det3(replCol(1)) / D;
+  const a = det3(replCol(2)) / D;
+  return {
+    eval: (x) => {
+      const xn = (x - xMin) / xRange;
+      return a * xn * xn + b * xn + c;
+    },
+  };
+}
+
+/** Trailing moving average over MOVING_AVG_WINDOW points, one value per full window */
+export function movingAverage(pts: Point[]): Point[] {
+  const smoothed: Point[] = [];
+  for (let i = MOVING_AVG_WINDOW - 1; i < pts.length; i++) {
+    let sum = 0;
+    for (let j = i - MOVING_AVG_WINDOW + 1; j <= i; j++) sum += pts[j].y;
+    smoothed.push({ x: pts[i].x, y: sum / MOVING_AVG_WINDOW });
+  }
+  return smoothed;
+}
+
+/** Trailing moving average, continued by a line through its last three points */
+export function movingAvgRegression(pts: Point[]): Regression | null {
+  return linearRegression(movingAverage(pts).slice(-3));
+}
+
+// ========== Prediction intervals ==========
+
+/**
+ * Standard error of a new observation at time t, from a fit's residuals and its
+ * number of parameters. The distance term widens the interval the further t is
+ * from the middle of the fitted data. Null when there are no spare degrees of freedom.
+ */
+export function predictionSpread(xs: number[], residuals: number[], params: number): ((t: number) => number) | null {
+  const n = residuals.length;
+  if (n <= params) return null;
+  const sigma = Math.sqrt(residuals.reduce((s, r) => s + r * r, 0) / (n - params));
+  const days = xs.map((x) => x / DAY_MS);
+  const meanDay = days.reduce((s, d) => s + d, 0) / n;
+  const sxx = days.reduce((s, d) => s + (d - meanDay) * (d - meanDay), 0) || 1;
+  return (t) => sigma * Math.sqrt(1 + 1 / n + Math.pow(t / DAY_MS - meanDay, 2) / sxx);
+}
+
+/** Trend for a projection mode, with the spread of its prediction interval */
+export function fitTrend(pts: Point[], mode: TrendMode): Trend | null {
+  if (mode === "moving-avg") {
+    const reg = movingAvgRegression(pts);
+    if (!reg) return null;
+    const smoothed = movingAverage(pts);
+    const residuals = smoothed.map((p, k) => pts[k + MOVING_AVG_WINDOW - 1].y - p.y);
+    return { reg, spread: predictionSpread(smoothed.map((p) => p.x), residuals, 1) };
+  }
+  const reg = mode === "poly" ? polyRegression(pts) : linearRegression(pts);
+  if (!reg) return null;
+  const params = mode === "poly" && pts.length >= 4 ? 3 : 2;
+  return { reg, spread: predictionSpread(pts.map((p) => p.x), pts.map((p) => p.y - reg.eval(p.x)), params) };
+}
+
+// ========== Pool counts ==========
+
+/** Index into SCORE_RANGES of the range holding a score */
+export function scoreRangeIndex(score: number): number {
+  const idx = SCORE_RANGES.findIndex((r) => score >= r.lo);
+  return idx === -1 ? SCORE_RANGES.length - 1 : idx;
+}
+
+/** Candidates at or above a score: the model's estimate and the range the range counts allow */
+export interface PoolEstimate {
+  estimate: number;
+  low: number;
+  high: number;
+}
+
+export interface PoolDensity {
+  above: (score: number) => PoolEstimate;
+}
+
+const MAX_SCORE = 1200;
+
+// Monotone cubic (Fritsch–Carlson) through decreasing knots; m holds the slopes at each knot
+function monotoneSlopes(xs: number[], ys: number[]): number[] {
+  const n = xs.length;
+  const secants = xs.slice(1).map((x, k) => (ys[k + 1] - ys[k]) / (x - xs[k]));
+  // The pool thins out towards 0 and 1200, so the curve is flat at both ends
+  const m = xs.map((_, k) => (k > 0 && k < n - 1 && secants[k - 1] * secants[k] > 0 ? (secants[k - 1] + secants[k]) / 2 : 0));
+  for (let k = 0; k < n - 1; k++) {
+    if (secants[k] === 0) {
+      m[k] = 0;
+      m[k + 1] = 0;
+      continue;
+    }
+    const a = m[k] / secants[k];
+    const b = m[k + 1] / secants[k];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const tau = 3 / Math.sqrt(h);
+      m[k] = tau * a * secants[k];
+      m[k + 1] = tau * b * secants[k];
+    }
+  }
+  return m;
+}
+
+/**
+ * Within-range density model for one snapshot. The number of candidates at or above
+ * each range's lower edge is known exactly; between edges it follows a monotone cubic
+ * through those counts. The low/high range allows any spread inside a range whose
+ * density differs from the range's average by no more than the neighbouring ranges'
+ * averages do (0 past either end of the scale). The estimate is kept inside that range.
+ */
+export function fitPoolDensity(snapshot: Pick<DistributionSnapshot, "ranges">): PoolDensity {
+  // Lowest range first, each with its count and average density per point
+  const bands = [...SCORE_RANGES].reverse().map(({ label, lo, hi }) => {
+    const count = snapshot.ranges[label] || 0;
+    return { lo, hi, count, density: count / (hi - lo + 1) };
+  });
+  // Knots at each lower edge and just past the top, valued at the candidates at or above them
+  const xs = [...bands.map((b) => b.lo), MAX_SCORE + 1];
+  const ys = xs.map((x) => bands.reduce((sum, b) => (b.lo >= x ? sum + b.count : sum), 0));
+  const m = monotoneSlopes(xs, ys);
+
+  const curve = (s: number, k: number) => {
+    const h = xs[k + 1] - xs[k];
+    const t = (s - xs[k]) / h;
+    const t2 = t * t, t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * ys[k] + (t3 - 2 * t2 + t) * h * m[k] + (-2 * t3 + 3 * t2) * ys[k + 1] + (t3 - t2) * h * m[k + 1];
+  };
+
+  return {
+    above(score) {
+      if (score <= 0) return { estimate: ys[0], low: ys[0], high: ys[0] };
+      if (score > MAX_SCORE) return { estimate: 0, low: 0, high: 0 };
+      let k = bands.length - 1;
+      while (bands[k].lo > score) k--;
+      const band = bands[k];
+      if (score === band.lo) return { estimate: ys[k], low: ys[k], high: ys[k] };
+
+      const higher = ys[k + 1]; // every range above is counted in full
+      const atOrAbove = band.hi - score + 1; // points of this range at or above the score
+      const below = score - band.lo;
+      const spread = Math.max(
+        Math.abs(band.density - (bands[k - 1]?.density ?? 0)),
+        Math.abs(band.density - (bands[k + 1]?.density ?? 0))
+      );
+      const dMin = Math.max(0, band.density - spread);
+      const dMax = band.density + spread;
+      const low = Math.max(atOrAbove * dMin, band.count - below * dMax);
+      const high = Math.min(atOrAbove * dMax, band.count - below * dMin);
+      const estimate = Math.min(high, Math.max(low, curve(score, k) - higher));
+      return {
+        estimate: Math.round(higher + estimate),
+        low: Math.round(higher + low),
+        high: Math.round(higher + high),
+      };
+    },
+  };
+}
+
+// Fitted once per snapshot; the simulation and the projections query the same snapshots many times
+const densityCache = new WeakMap<object, PoolDensity>();
+
+export function poolDensity(snapshot: Pick<DistributionSnapshot, "ranges">): PoolDensity {
+  let density = densityCache.get(snapshot.ranges);
+  if (!density) {
+    density = fitPoolDensity(snapshot);
+    densityCache.set(snapshot.ranges, density);
+  }
+  return density;
+}
+
+/** Candidates at or above a score: the density model's central estimate */
+export function countAboveScore(snapshot: Pick<DistributionSnapshot, "ranges">, score: number): number {
+  return poolDensity(snapshot).above(score).estimate;
+}
+
+/** Lowest score with at most `candidates` at or above it */
+export function scoreForCount(snapshot: Pick<DistributionSnapshot, "ranges">, candidates: number): number {
+  let lo = 0;
+  let hi = 1200;
+  while (lo < hi) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (countAboveScore(snapshot, mid) <= candidates) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+/** Snapshot closest to a timestamp, if one is within 30 days */
+export function findClosestSnapshot<T extends Pick<DistributionSnapshot, "date">>(snapshots: T[], t: number): T | null {
+  let best: T | null = null;
+  let bestDiff = Infinity;
+  for (const snap of snapshots) {
+    const diff = Math.abs(new Date(snap.date).getTime() - t);
+    if (diff < bestDiff) { bestDiff = diff; best = snap; }
+  }
+  return bestDiff <= 30 * DAY_MS ? best : null;
+}
+
+function medianOfRecent(values: number[], count: number): number | null {
+  const recent = values.slice(-count).filter((n) => n > 0).sort((a, b) => a - b);
+  return recent.length ? recent[Math.floor(recent.length / 2)] : null;
+}
+
+export interface PoolPosition {
+  above: PoolEstimate; // candidates at or above the score
+  total: number;
+  topShare: number; // above.estimate / total
+  medianInvitations: number;
+  competitionRatio: number; // above.estimate / medianInvitations
+}
+
+/** Where a score sits in a pool snapshot, against the median of the recent draw sizes */
+export function poolPosition(
+  snapshot: Pick<DistributionSnapshot, "ranges" | "total">,
+  score: number,
+  recentInvitations: number[]
+): PoolPosition {
+  const above = poolDensity(snapshot).above(score);
+  const medianInvitations = medianOfRecent(recentInvitations, 10) ?? 0;
+  return {
+    above,
+    total: snapshot.total,
+    topShare: snapshot.total > 0 ? above.estimate / snapshot.total : 0,
+    medianInvitations,
+    competitionRatio: medianInvitations > 0 ? above.estimate / medianInvitations : 0,
+  };
+}
+
+// ========== Crossing projections ==========
+
+/** First weekly step within 3 years where value(t) drops to the threshold */
+export function findCrossing(value: (t: number) => number, threshold: number, fromT: number): number | null {
+  const maxT = fromT + 3 * 365.25 * DAY_MS;
+  for (let t = fromT; t <= maxT; t += 7 * DAY_MS) {
+    if (value(t) <= threshold) return t;
+  }
+  return null;
+}
+
+/** When a trend reaches a threshold, with the 80% prediction interval around it */
+export function crossingRange(trend: Trend, threshold: number, fromT: number): Omit<CrossingRange, "poolAware"> | null {
+  const center = findCrossing(trend.reg.eval, threshold, fromT);
+  if (center === null) return null;
+  const spread = trend.spread;
+  if (!spread) return { center, start: center, end: center };
+  const z = PREDICTION_BANDS.find((b) => b.level === 80)!.z;
+  return {
+    center,
+    start: findCrossing((t) => trend.reg.eval(t) - z * spread(t), threshold, fromT),
+    end: findCrossing((t) => trend.reg.eval(t) + z * spread(t), threshold, fromT),
+  };
+}
+
+/**
+ * Pool-aware projection: uses competition ratio (candidates above the score per
+ * invitation) instead of the raw CRS trend. This accounts for the non-linear density
+ * of candidates at different score ranges — cutoffs stall at dense bands.
+ * Null when there isn't enough pool history or the score would already be reached.
+ */
+export function poolAwareCrossing(
+  rounds: RoundPoint[],
+  score: number,
+  mode: TrendMode,
+  snapshots: SnapshotLike[]
+): CrossingRange | null {
+  // Need a few rounds whose cutoff can be placed in a snapshot
+  const placed = rounds.filter((r) => r.invitations && r.invitations > 0 && findClosestSnapshot(snapshots, r.x));
+  if (placed.length < 3) return null;
+
+  const latest = snapshots[snapshots.length - 1];
+  const medianInvitations = medianOfRecent(rounds.map((r) => r.invitations ?? 0), 10);
+  if (!latest || !medianInvitations) return null;
+
+  // A ratio at or below 1 means the score would likely be invited now
+  if (countAboveScore(latest, score) / medianInvitations <= 1.0) return null;
+
+  // The user's ratio at each snapshot; fit the trend and find when it drops to 1
+  const ratios = snapshots.map((snap) => ({
+    x: new Date(snap.date).getTime(),
+    y: countAboveScore(snap, score) / medianInvitations,
+  }));
+  if (ratios.length < 2) return null;
+  const trend = fitTrend(ratios, mode);
+  if (!trend) return null;
+  const range = crossingRange(trend, 1.0, ratios[ratios.length - 1].x);
+  return range && { ...range, poolAware: true };
+}
+
+/**
+ * When a category's cutoff is projected to reach a score: pool-aware when there are
+ * at least 3 snapshots, otherwise (or if that gives nothing) the CRS trend itself.
+ * `rounds` must be in date order.
+ */
+export function projectedCrossing(
+  rounds: RoundPoint[],
+  score: number,
+  mode: TrendMode,
+  snapshots: SnapshotLike[]
+): CrossingRange | null {
+  if (snapshots.length >= 3) {
+    const poolResult = poolAwareCrossing(rounds, score, mode, snapshots);
+    if (poolResult) return poolResult;
+  }
+  if (!rounds.length) return null;
+  const trend = fitTrend(rounds, mode);
+  if (!trend) return null;
+  const range = crossingRange(trend, score, rounds[rounds.length - 1].x);
+  return range && { ...range, poolAware: false };
+}
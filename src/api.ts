@@ -0,0 +1,119 @@
+import type {
+  ApiCategoryFile,
+  ApiCategoryStats,
+  ApiDistributionsFile,
+  ApiIndexFile,
+  ApiLatestFile,
+  ApiRound,
+  ApiRoundsFile,
+  Category,
+  DistributionSnapshot,
+  DrawData,
+  DrawRound,
+} from "./types.js";
+import { SCORE_RANGES } from "./distribution.js";
+import { classifyRound } from "./classify.js";
+
+export interface ApiCategoryInput {
+  category: Category;
+  color: string;
+  rounds: DrawRound[];
+}
+
+export interface ApiInput {
+  data: DrawData;
+  categories: ApiCategoryInput[];
+  snapshots: DistributionSnapshot[];
+  generatedAt: string;
+}
+
+function toApiRound(round: DrawRound, category: Category): ApiRound {
+  const { distribution, ...rest } = round;
+  return { ...rest, ...classifyRound(round), category: category.id, categoryName: category.name };
+}
+
+function byDateThenNumber(a: ApiRound, b: ApiRound): number {
+  return a.date.localeCompare(b.date) || a.number - b.number;
+}
+
+export function categoryStats(rounds: Array<Pick<DrawRound, "date" | "crsScore" | "invitationsIssued">>): ApiCategoryStats {
+  const sortedDates = rounds.map((r) => r.date).sort();
+  const scores = rounds.map((r) => r.crsScore).sort((a, b) => a - b);
+  const mid = Math.floor(scores.length / 2);
+  return {
+    rounds: rounds.length,
+    firstDate: sortedDates[0],
+    lastDate: sortedDates[sortedDates.length - 1],
+    minCrs: scores[0],
+    maxCrs: scores[scores.length - 1],
+    medianCrs: scores.length % 2 ? scores[mid] : Math.round((scores[mid - 1] + scores[mid]) / 2),
+    totalInvitations: rounds.reduce((s, r) => s + r.invitationsIssued, 0),
+  };
+}
+
+/** Every round with its category, ordered by round number */
+export function listApiRounds(categories: Array<Pick<ApiCategoryInput, "category" | "rounds">>): ApiRound[] {
+  return categories
+    .flatMap(({ category, rounds }) => rounds.map((r) => toApiRound(r, category)))
+    .sort((a, b) => a.number - b.number || a.date.localeCompare(b.date));
+}
+
+/** Build every API file, keyed by path relative to api/v1/ */
+export function buildApi({ data, categories, snapshots, generatedAt }: ApiInput): Record<string, object> {
+  const base = { apiVersion: 1 as const, generatedAt, fetchedAt: data.fetchedAt };
+  const files: Record<string, object> = {};
+
+  const allRounds = listApiRounds(categories);
+
+  const roundsFile: ApiRoundsFile = { ...base, source: data.source, rounds: allRounds };
+  files["rounds.json"] = roundsFile;
+
+  const byCategory: Record<string, ApiRound> = {};
+  for (const { category, color, rounds } of categories) {
+    const apiRounds = rounds.map((r) => toApiRound(r, category)).sort(byDateThenNumber);
+    byCategory[category.id] = apiRounds[apiRounds.length - 1];
+
+    const file: ApiCategoryFile = {
+      ...base,
+      category: { id: category.id, name: category.name, color },
+      stats: categoryStats(rounds),
+      rounds: apiRounds,
+    };
+    files[`categories/${category.id}.json`] = file;
+  }
+
+  const latest: ApiLatestFile = {
+    ...base,
+    latest: [...allRounds].sort(byDateThenNumber)[allRounds.length - 1],
+    byCategory,
+    distribution: snapshots.length > 0 ? snapshots[snapshots.length - 1] : null,
+  };
+  files["latest.json"] = latest;
+
+  const distributions: ApiDistributionsFile = {
+    ...base,
+    ranges: SCORE_RANGES.map((r) => r.label),
+    snapshots,
+  };
+  files["distributions.json"] = distributions;
+
+  const index: ApiIndexFile = {
+    ...base,
+    endpoints: {
+      rounds: "rounds.json",
+      latest: "latest.json",
+      distributions: "distributions.json",
+      category: "categories/{id}.json",
+    },
+    categories: categories.map(({ category, color, rounds }) => ({
+      id: category.id,
+      name: category.name,
+      color,
+      rounds: rounds.length,
+      href: `categories/${category.id}.json`,
+    })),
+  };
+  files["index.json"] = index;
+
+  return files;
+}
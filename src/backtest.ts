@@ -0,0 +1,157 @@
+import type {
+  BacktestCategoryResult,
+  BacktestMethodMetrics,
+  BacktestMetrics,
+  BacktestReport,
+  Category,
+  DistributionSnapshot,
+  DrawRound,
+  ProjectionMethod,
+} from "./types.js";
+import {
+  linearRegression,
+  movingAvgRegression,
+  polyRegression,
+  projectedCrossing,
+  type Regression,
+  type RoundPoint,
+} from "./analytics.js";
+
+export const PROJECTION_METHODS: ProjectionMethod[] = ["linear", "moving-avg", "poly"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BacktestOptions {
+  generatedAt: string;
+  horizon?: number;
+  minTrain?: number;
+  hitTolerance?: number;
+  hitToleranceDays?: number;
+}
+
+function fit(method: ProjectionMethod, train: DrawRound[]): Regression | null {
+  const pts = train.map((r) => ({ x: new Date(r.date).getTime(), y: r.crsScore }));
+  if (method === "linear") return linearRegression(pts);
+  if (method === "poly") return polyRegression(pts);
+  return movingAvgRegression(pts);
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function metrics(errors: number[], hitTolerance: number): BacktestMetrics {
+  const n = errors.length;
+  return {
+    forecasts: n,
+    mae: round2(errors.reduce((s, e) => s + Math.abs(e), 0) / n),
+    rmse: round2(Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / n)),
+    hitRate: Math.round((errors.filter((e) => Math.abs(e) <= hitTolerance).length / n) * 1000) / 1000,
+  };
+}
+
+function byMethod(errors: Record<string, number[]>, hitTolerance: number): BacktestMethodMetrics {
+  const result: BacktestMethodMetrics = {};
+  for (const method of PROJECTION_METHODS) {
+    if (errors[method]?.length) result[method] = metrics(errors[method], hitTolerance);
+  }
+  return result;
+}
+
+/**
+ * Replay each category's history with rolling origins: from every round after the
+ * first `minTrain`, fit each method on the rounds so far and forecast the cutoffs of
+ * the next `horizon` rounds.
+ *
+ * The score cards project dates, not cutoffs, so the pool-aware model is scored the
+ * way they use it: from each origin, `projectedCrossing` (with the pool snapshots
+ * published by then) predicts when the cutoff reaches each later round's score, and
+ * the error is in days. Only forecasts it makes pool-aware count, once per trend mode.
+ */
+export function runBacktest(
+  categories: Array<{ category: Category; rounds: DrawRound[] }>,
+  snapshots: DistributionSnapshot[],
+  { generatedAt, horizon = 3, minTrain = 8, hitTolerance = 10, hitToleranceDays = 30 }: BacktestOptions
+): BacktestReport {
+  const allErrors: Record<string, number[]> = {};
+  const allDayErrors: Record<string, number[]> = {};
+  const results: BacktestCategoryResult[] = [];
+
+  for (const { category, rounds } of categories) {
+    if (rounds.length <= minTrain) continue;
+    const sorted = [...rounds].sort((a, b) => a.date.localeCompare(b.date) || a.number - b.number);
+    const errors: Record<string, number[]> = {};
+    const dayErrors: Record<string, number[]> = {};
+    const points: RoundPoint[] = sorted.map((r) => ({
+      x: new Date(r.date).getTime(),
+      y: r.crsScore,
+      invitations: r.invitationsIssued,
+    }));
+
+    for (let origin = minTrain; origin < sorted.length; origin++) {
+      const train = sorted.slice(0, origin);
+      const targets = sorted.slice(origin, origin + horizon);
+      const lastDate = train[train.length - 1].date;
+      const known = snapshots.filter((s) => s.date <= lastDate);
+
+      for (const method of PROJECTION_METHODS) {
+        const model = fit(method, train);
+        if (model) {
+          for (const target of targets) {
+            const predicted = Math.max(0, model.eval(new Date(target.date).getTime()));
+            if (!Number.isFinite(predicted)) continue;
+            (errors[method] ??= []).push(predicted - target.crsScore);
+            (allErrors[method] ??= []).push(predicted - target.crsScore);
+          }
+        }
+
+        for (const target of targets) {
+          // A score the latest cutoff already met reads "Eligible now", with no projection
+          if (target.crsScore >= train[train.length - 1].crsScore) continue;
+          const range = projectedCrossing(points.slice(0, origin), target.crsScore, method, known);
+          if (!range?.poolAware) continue;
+          const error = (range.center - new Date(target.date).getTime()) / DAY_MS;
+          (dayErrors[method] ??= []).push(error);
+          (allDayErrors[method] ??= []).push(error);
+        }
+      }
+    }
+
+    results.push({
+      category: category.id,
+      name: category.name,
+      rounds: rounds.length,
+      methods: byMethod(errors, hitTolerance),
+      poolAware: byMethod(dayErrors, hitToleranceDays),
+    });
+  }
+
+  return {
+    generatedAt,
+    horizon,
+    minTrain,
+    hitTolerance,
+    hitToleranceDays,
+    overall: byMethod(allErrors, hitTolerance),
+    poolAwareOverall: byMethod(allDayErrors, hitToleranceDays),
+    categories: results,
+  };
+}
+
+/** Plain-text tables for the build log: cutoff errors, then pool-aware date errors */
+export function formatBacktest(report: BacktestReport): string {
+  const cell = (m?: BacktestMetrics) =>
+    (m ? `${m.mae.toFixed(1)} / ${m.rmse.toFixed(1)} / ${Math.round(m.hitRate * 100)}%` : "-").padEnd(22);
+  const header = "Category".padEnd(34) + PROJECTION_METHODS.map((m) => m.padEnd(22)).join("");
+  const rows = (pick: (c: BacktestCategoryResult) => BacktestMethodMetrics, overall: BacktestMethodMetrics) => [
+    ...report.categories.map((c) => c.name.slice(0, 32).padEnd(34) + PROJECTION_METHODS.map((m) => cell(pick(c)[m])).join("")),
+    "All categories".padEnd(34) + PROJECTION_METHODS.map((m) => cell(overall[m])).join(""),
+  ];
+  return [
+    `Backtest: next ${report.horizon} rounds from each origin, MAE / RMSE / within ±${report.hitTolerance} pts`,
+    header,
+    ...rows((c) => c.methods, report.overall),
+    "",
+    `Pool-aware crossing dates by trend mode, MAE / RMSE in days / within ±${report.hitToleranceDays} days`,
+    header,
+    ...rows((c) => c.poolAware, report.poolAwareOverall),
+  ].join("\n");
+}
@@ -0,0 +1,26 @@
+import { readFileSync } from "fs";
+import ts from "typescript";
+
+/**
+ * Compile a self-contained TypeScript module for an inline <script>. Its exports
+ * become properties of one global object. Type-only imports are erased; runtime
+ * imports aren't supported and fail the build.
+ */
+export function bundleForBrowser(file: string, globalName: string): string {
+  const { outputText, diagnostics } = ts.transpileModule(readFileSync(file, "utf-8"), {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      removeComments: true,
+    },
+  });
+  if (diagnostics && diagnostics.length > 0) {
+    throw new Error(`${file}: ${ts.flattenDiagnosticMessageText(diagnostics[0].messageText, "\n")}`);
+  }
+  if (/\brequire\(/.test(outputText)) {
+    throw new Error(`${file} has runtime imports and can't be inlined into the page`);
+  }
+  return `const ${globalName} = (function () {\n  const exports = {};\n${outputText}\n  return exports;\n})();`;
+}
@@ -0,0 +1,98 @@
+import type { CadenceGap, CadenceGapStats, CadenceReport, CadenceSummary, Category, DrawRound } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Gap statistics use the last two years when there are enough gaps; cadence shifts with policy
+const LOOKBACK_DAYS = 2 * 365;
+const MIN_GAPS = 4;
+const RECENT_GAPS = 6;
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Linearly interpolated quantile of an ascending array */
+function quantile(sorted: number[], q: number): number {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function gapStats(days: number[]): CadenceGapStats | null {
+  if (!days.length) return null;
+  const sorted = [...days].sort((a, b) => a - b);
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  return {
+    count: sorted.length,
+    median: quantile(sorted, 0.5),
+    q1,
+    q3,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    low: Math.max(0, q1 - 1.5 * iqr),
+    high: q3 + 1.5 * iqr,
+  };
+}
+
+function summarize(roundDates: string[]): CadenceSummary {
+  // Same-day rounds count as one draw date
+  const dates = [...new Set(roundDates)].sort();
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+
+  const gaps: CadenceGap[] = dates.slice(1).map((to, i) => ({ from: dates[i], to, days: daysBetween(dates[i], to) }));
+  const since = addDays(lastDate, -LOOKBACK_DAYS);
+  const recent = gaps.filter((g) => g.to >= since);
+  const stats = gapStats((recent.length >= MIN_GAPS ? recent : gaps).map((g) => g.days));
+
+  const recentGaps = gaps.slice(-RECENT_GAPS).map((g) => {
+    if (stats && g.days > stats.high) return { ...g, unusual: "long" as const };
+    if (stats && g.days < stats.low) return { ...g, unusual: "short" as const };
+    return g;
+  });
+
+  const weekdays = [0, 0, 0, 0, 0, 0, 0];
+  const perMonth: Record<string, number> = {};
+  for (const date of dates) {
+    weekdays[new Date(`${date}T00:00:00Z`).getUTCDay()]++;
+    perMonth[date.slice(0, 7)] = (perMonth[date.slice(0, 7)] ?? 0) + 1;
+  }
+
+  return {
+    draws: dates.length,
+    firstDate,
+    lastDate,
+    gapStats: stats,
+    recentGaps,
+    nextWindow: stats
+      ? { from: addDays(lastDate, Math.round(stats.q1)), to: addDays(lastDate, Math.round(stats.q3)) }
+      : null,
+    weekdays,
+    perMonth,
+  };
+}
+
+/** Timing of draws per category and overall: gaps, usual range, next-draw window, weekdays and months */
+export function buildCadence(
+  categories: Array<{ category: Category; rounds: DrawRound[] }>,
+  generatedAt: string
+): CadenceReport {
+  return {
+    generatedAt,
+    lookbackDays: LOOKBACK_DAYS,
+    overall: summarize(categories.flatMap(({ rounds }) => rounds.map((r) => r.date))),
+    categories: categories
+      .filter(({ rounds }) => rounds.length > 0)
+      .map(({ category, rounds }) => ({
+        category: category.id,
+        name: category.name,
+        ...summarize(rounds.map((r) => r.date)),
+      })),
+  };
+}
@@ -0,0 +1,94 @@
+import { readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import type { Category, CategoryRule, DrawProgram, DrawRound } from "./types.js";
+
+const RULES_FILE = join(dirname(fileURLToPath(import.meta.url)), "data", "categories.json");
+
+const FALLBACK_COLORS = [
+  "#f59e0b",
+  "#8b5cf6",
+  "#ec4899",
+  "#06b6d4",
+  "#84cc16",
+  "#f97316",
+  "#14b8a6",
+  "#a855f7",
+];
+
+// Programs a rule can name; "category" and "unknown" are derived, not configured
+const RULE_PROGRAMS: DrawProgram[] = ["general", "pnp", "cec", "fsw", "fst"];
+
+export interface CompiledRule extends CategoryRule {
+  regex: RegExp;
+}
+
+export function loadCategoryRules(file = RULES_FILE): CompiledRule[] {
+  const { rules } = JSON.parse(readFileSync(file, "utf-8")) as { rules: CategoryRule[] };
+  const ids = new Set<string>();
+  return rules.map((rule, i) => {
+    for (const field of ["id", "name", "pattern", "color"] as const) {
+      if (typeof rule[field] !== "string" || !rule[field]) {
+        throw new Error(`${file}: rule ${i} is missing "${field}"`);
+      }
+    }
+    if (ids.has(rule.id)) throw new Error(`${file}: duplicate rule id "${rule.id}"`);
+    if (rule.program !== undefined && !RULE_PROGRAMS.includes(rule.program)) {
+      throw new Error(`${file}: rule "${rule.id}" has unknown program "${rule.program}"`);
+    }
+    ids.add(rule.id);
+    return { ...rule, order: rule.order ?? i, regex: new RegExp(rule.pattern, "i") };
+  });
+}
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/** Normalize round types into broader categories for charting */
+export function categorize(round: DrawRound, rules: CompiledRule[]): Category {
+  const rule = rules.find((r) => r.regex.test(round.roundType));
+  if (rule) {
+    return { id: rule.id, name: rule.name, color: rule.color, order: rule.order, matched: true };
+  }
+  // Keep original if no match
+  return {
+    id: slugify(round.roundType),
+    name: round.roundType,
+    order: Number.MAX_SAFE_INTEGER,
+    matched: false,
+  };
+}
+
+/** Rounds grouped by category: rule display order first, then unmatched types by count (descending) */
+export function groupByCategory(rounds: DrawRound[], rules: CompiledRule[]): Array<{ category: Category; rounds: DrawRound[] }> {
+  const grouped = new Map<string, { category: Category; rounds: DrawRound[] }>();
+  for (const round of rounds) {
+    const category = categorize(round, rules);
+    if (!grouped.has(category.id)) grouped.set(category.id, { category, rounds: [] });
+    grouped.get(category.id)!.rounds.push(round);
+  }
+  return [...grouped.values()].sort(
+    (a, b) => a.category.order - b.category.order || b.rounds.length - a.rounds.length
+  );
+}
+
+/**
+ * Category ids in the order the chart used before categories.json: most rounds
+ * first, ties in order of first appearance. Bookmarks from then hide categories
+ * by their index in this order.
+ */
+export function legacyCategoryOrder(categories: Array<{ category: Category; rounds: DrawRound[] }>, rounds: DrawRound[]): string[] {
+  const firstSeen = new Map<string, number>();
+  for (const [i, round] of rounds.entries()) {
+    const c = categories.find((g) => g.rounds.includes(round));
+    if (c && !firstSeen.has(c.category.id)) firstSeen.set(c.category.id, i);
+  }
+  return [...categories]
+    .sort((a, b) => b.rounds.length - a.rounds.length || firstSeen.get(a.category.id)! - firstSeen.get(b.category.id)!)
+    .map((c) => c.category.id);
+}
+
+export function getColor(category: Category, index: number): string {
+  return category.color ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length];
+}
@@ -0,0 +1,44 @@
+import type { DrawRound, RoundClassification } from "./types.js";
+import { loadCategoryRules, type CompiledRule } from "./categories.js";
+
+// Matches "(Version 2)", ", 2026-Version 3" and " 2026-Version 2" at the end of a round type
+const VERSION_PATTERN = /[\s,(]*(?:(\d{4})-)?Version\s*(\d+)\)?\s*$/i;
+
+// Rules from categories.json, loaded on first use
+let defaultRules: CompiledRule[] | null = null;
+
+/**
+ * Split an IRCC round type into program, category family, version and year. The
+ * first matching category rule decides: its `program` if it has one, otherwise a
+ * category draw whose family is the rule id.
+ */
+export function classifyRoundType(roundType: string, rules: CompiledRule[] = (defaultRules ??= loadCategoryRules())): RoundClassification {
+  const match = roundType.match(VERSION_PATTERN);
+  const name = (match ? roundType.slice(0, match.index) : roundType).trim();
+  const lower = name.toLowerCase();
+
+  const result: RoundClassification = { program: "unknown" };
+
+  const rule = rules.find((r) => r.regex.test(roundType));
+  if (rule?.program) {
+    result.program = rule.program;
+  } else if (rule) {
+    result.program = "category";
+    result.categoryFamily = rule.id;
+  } else if (match) {
+    // A versioned type we don't know yet is still a category draw
+    result.program = "category";
+    result.categoryFamily = lower.replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  }
+
+  if (match) {
+    result.version = parseInt(match[2], 10);
+    if (match[1]) result.year = parseInt(match[1], 10);
+  }
+  return result;
+}
+
+/** Structured fields from download time, or derived here for rounds saved before they existed */
+export function classifyRound(round: DrawRound): RoundClassification {
+  return round.program ? (round as RoundClassification) : classifyRoundType(round.roundType);
+}
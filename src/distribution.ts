@@ -0,0 +1,30 @@
+import type { DrawRound, DistributionSnapshot } from "./types.js";
+import { SCORE_RANGES } from "./analytics.js";
+
+export { SCORE_RANGES };
+
+/** Build distribution snapshots over time (deduplicated by asOfDate) */
+export function buildDistributionSnapshots(rounds: DrawRound[]): DistributionSnapshot[] {
+  const distRounds = rounds
+    .filter((r) => r.distribution && r.distribution.total > 0)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const seenDates = new Set<string>();
+  const snapshots: DistributionSnapshot[] = [];
+
+  for (const r of distRounds) {
+    const d = r.distribution!;
+    const key = d.asOfDate || r.date;
+    if (seenDates.has(key)) continue;
+    seenDates.add(key);
+    snapshots.push({
+      date: r.date,
+      asOfDate: d.asOfDate,
+      round: r.number,
+      ranges: Object.fromEntries(SCORE_RANGES.map(({ label, key }) => [label, d[key] as number])),
+      total: d.total,
+    });
+  }
+
+  return snapshots;
+}
@@ -1,102 +1,79 @@
-import { writeFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join, dirname, resolve } from "path";
 import { fileURLToPath } from "url";
-import type { DrawRound, DrawData, ScoreDistribution } from "./types.js";
-
-const JSON_URL =
-  "https://www.canada.ca/content/dam/ircc/documents/json/ee_rounds_123_en.json";
-const SOURCE_URL =
-  "https://www.canada.ca/en/immigration-refugees-citizenship/corporate/mandate/policies-operational-instructions-agreements/ministerial-instructions/express-entry-rounds.html";
+import { parseArgs } from "util";
+import type { DrawData, IrccPayload } from "./types.js";
+import { mergeRounds } from "./history.js";
+import { validatePayload, formatIssue } from "./validate.js";
+import { JSON_URL, SOURCE_URL, loadPayload, parseRounds } from "./ircc.js";
 
 const DATA_DIR = join(dirname(fileURLToPath(import.meta.url)), "data");
 const OUTPUT_FILE = join(DATA_DIR, "rounds.json");
 
-function parseNumber(str: string): number {
-  if (!str || str === "undefined" || str === "N/A") return 0;
-  return parseInt(str.replace(/,/g, "").trim(), 10) || 0;
-}
-
-function parseDate(dateStr: string): string {
-  const d = new Date(dateStr);
-  if (!isNaN(d.getTime())) {
-    return d.toISOString().split("T")[0];
-  }
-  return dateStr;
-}
-
-function parseDistribution(round: Record<string, string>): ScoreDistribution | undefined {
-  // dd1-dd18 map to score ranges (dd3 and dd9 are aggregates of sub-ranges, skip them)
-  const dd1 = parseNumber(round.dd1);
-  const total = parseNumber(round.dd18);
-  if (!total) return undefined;
-
-  return {
-    range601_1200: dd1,
-    range501_600: parseNumber(round.dd2),
-    range491_500: parseNumber(round.dd4),
-    range481_490: parseNumber(round.dd5),
-    range471_480: parseNumber(round.dd6),
-    range461_470: parseNumber(round.dd7),
-    range451_460: parseNumber(round.dd8),
-    range441_450: parseNumber(round.dd10),
-    range431_440: parseNumber(round.dd11),
-    range421_430: parseNumber(round.dd12),
-    range411_420: parseNumber(round.dd13),
-    range401_410: parseNumber(round.dd14),
-    range351_400: parseNumber(round.dd15),
-    range301_350: parseNumber(round.dd16),
-    range0_300: parseNumber(round.dd17),
-    total,
-    asOfDate: round.drawDistributionAsOn || "",
-  };
-}
-
 async function main() {
-  console.log("Fetching Express Entry data from JSON endpoint...");
-
-  const response = await fetch(JSON_URL);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+  const { values: args } = parseArgs({
+    options: {
+      source: { type: "string", default: process.env.EE_SOURCE || JSON_URL },
+      out: { type: "string", default: OUTPUT_FILE },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  const outputFile = resolve(args.out);
+
+  console.log(`Loading Express Entry data from ${args.source}...`);
+  const payload = await loadPayload(args.source);
+
+  // Refuse to touch the saved data if IRCC changed the payload format
+  const issues = validatePayload(payload);
+  const errors = issues.filter((i) => i.severity === "error");
+  issues.forEach((i) => console.log(`  ${formatIssue(i)}`));
+  if (errors.length > 0) {
+    throw new Error(
+      `Payload validation failed with ${errors.length} error(s) and ${issues.length - errors.length} warning(s); ${outputFile} was not modified`
+    );
   }
+  if (issues.length > 0) console.log(`Payload validated with ${issues.length} warning(s)`);
 
-  const json = await response.json();
-  const roundsObj = json.rounds as Record<string, Record<string, string>>;
+  const rounds = parseRounds(payload as IrccPayload);
 
-  const rounds: DrawRound[] = [];
-
-  for (const [key, round] of Object.entries(roundsObj)) {
-    const num = parseNumber(round.drawNumber);
-    if (!num) continue;
-
-    const drawRound: DrawRound = {
-      number: num,
-      date: parseDate(round.drawDateFull || round.drawDate || ""),
-      roundType: round.drawName || round.drawText2 || "",
-      invitationsIssued: parseNumber(round.drawSize),
-      crsScore: parseNumber(round.drawCRS),
-    };
-
-    const dist = parseDistribution(round);
-    if (dist) {
-      drawRound.distribution = dist;
-    }
-
-    rounds.push(drawRound);
-  }
-
-  // Sort by round number
-  rounds.sort((a, b) => a.number - b.number);
+  // Merge into previously saved data so IRCC's silent corrections are kept as history
+  const previous: DrawData | null = existsSync(outputFile)
+    ? JSON.parse(readFileSync(outputFile, "utf-8"))
+    : null;
+  const fetchedAt = new Date().toISOString();
+  const merged = mergeRounds(previous?.rounds ?? [], rounds, fetchedAt);
 
   const data: DrawData = {
-    fetchedAt: new Date().toISOString(),
+    fetchedAt,
     source: SOURCE_URL,
-    rounds,
+    rounds: merged.rounds,
+    history: [...(previous?.history ?? []), ...merged.revisions],
   };
 
-  mkdirSync(DATA_DIR, { recursive: true });
-  writeFileSync(OUTPUT_FILE, JSON.stringify(data, null, 2));
+  if (args["dry-run"]) {
+    console.log(`\nDry run: ${data.rounds.length} rounds not written to ${outputFile}`);
+  } else {
+    mkdirSync(dirname(outputFile), { recursive: true });
+    writeFileSync(outputFile, JSON.stringify(data, null, 2));
+    console.log(`\nSaved ${data.rounds.length} rounds to ${outputFile}`);
+  }
 
-  console.log(`\nSaved ${rounds.length} rounds to ${OUTPUT_FILE}`);
+  // Print change summary
+  console.log(`\nChanges since last download:`);
+  console.log(`  New rounds: ${merged.added.length}`);
+  merged.added.forEach((r) => {
+    console.log(`    + #${r.number} ${r.date} ${r.roundType} (CRS ${r.crsScore})`);
+  });
+  const revisedRounds = new Set(merged.revisions.map((r) => r.round));
+  console.log(`  Revised rounds: ${revisedRounds.size} (${merged.revisions.length} field changes)`);
+  merged.revisions.forEach((r) => {
+    console.log(`    ~ #${r.round} ${r.field}: ${r.oldValue} -> ${r.newValue}`);
+  });
+  if (merged.retained.length > 0) {
+    console.log(
+      `  Kept ${merged.retained.length} stored rounds missing from the payload: ${merged.retained.map((r) => "#" + r.number).join(", ")}`
+    );
+  }
 
   // Print summary
   const types = new Set(rounds.map((r) => r.roundType));
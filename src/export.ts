@@ -0,0 +1,72 @@
+import type { ApiRound, DistributionSnapshot } from "./types.js";
+import { SCORE_RANGES } from "./distribution.js";
+
+// Same columns as the "Download CSV" buttons on the page
+export const ROUND_COLUMNS = [
+  "number",
+  "date",
+  "category_id",
+  "category",
+  "round_type",
+  "version",
+  "crs_score",
+  "invitations_issued",
+  "tie_breaking_cutoff",
+];
+
+export const DISTRIBUTION_COLUMNS = [
+  "date",
+  "as_of_date",
+  "round",
+  ...SCORE_RANGES.map((r) => r.label),
+  "total",
+];
+
+type Cell = string | number | undefined | null;
+
+function csvCell(value: Cell): string {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns: string[], rows: Cell[][]): string {
+  return [columns, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function roundRow(r: ApiRound): Cell[] {
+  return [
+    r.number,
+    r.date,
+    r.category,
+    r.categoryName,
+    r.roundType,
+    r.version,
+    r.crsScore,
+    r.invitationsIssued,
+    r.tieBreakingCutoff,
+  ];
+}
+
+function distributionRow(s: DistributionSnapshot): Cell[] {
+  return [s.date, s.asOfDate, s.round, ...SCORE_RANGES.map((r) => s.ranges[r.label] ?? 0), s.total];
+}
+
+/** Rows keyed by column name, one JSON object per line */
+function toNdjson(columns: string[], rows: Cell[][]): string {
+  return rows
+    .map((row) => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c, row[i] ?? null]))))
+    .join("\n") + "\n";
+}
+
+/** Build every export file, keyed by file name */
+export function buildExports(rounds: ApiRound[], snapshots: DistributionSnapshot[]): Record<string, string> {
+  const roundRows = rounds.map(roundRow);
+  const distRows = snapshots.map(distributionRow);
+  return {
+    "rounds.csv": toCsv(ROUND_COLUMNS, roundRows),
+    "rounds.ndjson": toNdjson(ROUND_COLUMNS, roundRows),
+    "distributions.csv": toCsv(DISTRIBUTION_COLUMNS, distRows),
+    "distributions.ndjson": toNdjson(DISTRIBUTION_COLUMNS, distRows),
+  };
+}
@@ -0,0 +1,140 @@
+import type { DrawRound } from "./types.js";
+import { SCORE_RANGES } from "./distribution.js";
+
+export interface FeedRound {
+  round: DrawRound;
+  category: string;
+  categoryId: string;
+}
+
+export interface FeedOptions {
+  siteUrl: string; // absolute, with trailing slash
+  updated: string; // ISO timestamp
+}
+
+const TITLE = "Canada Express Entry invitation rounds";
+const DESCRIPTION = "New Express Entry rounds with CRS cutoff, invitations issued and the pool distribution at the time";
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Stable entry id derived from the round number. IRCC reused #91 for two
+ * same-day rounds, so numbers shared by several rounds also carry the category.
+ */
+function entryId(item: FeedRound, siteUrl: string, shared: boolean): string {
+  const host = new URL(siteUrl).host;
+  const suffix = shared ? `-${item.categoryId}` : "";
+  return `tag:${host},2015:round-${item.round.number}${suffix}`;
+}
+
+function entryTitle({ round, category }: FeedRound): string {
+  return `Round #${round.number}: ${category} — CRS ${round.crsScore}, ${round.invitationsIssued.toLocaleString("en-CA")} invitations`;
+}
+
+function entryTimestamp(round: DrawRound): string {
+  return round.drawDateTime ?? `${round.date}T00:00:00Z`;
+}
+
+function entryHtml({ round, category }: FeedRound, siteUrl: string): string {
+  const lines = [
+    `<p><strong>${escapeXml(category)}</strong> round #${round.number} on ${round.date}</p>`,
+    `<ul>`,
+    `<li>Round type: ${escapeXml(round.roundType)}</li>`,
+    `<li>CRS cutoff: ${round.crsScore}</li>`,
+    `<li>Invitations issued: ${round.invitationsIssued.toLocaleString("en-CA")}</li>`,
+  ];
+  if (round.tieBreakingRule) {
+    lines.push(`<li>Tie-breaking rule: ${escapeXml(round.tieBreakingRule)}</li>`);
+  }
+  lines.push(`</ul>`);
+
+  const dist = round.distribution;
+  if (dist) {
+    lines.push(`<p>Pool distribution as of ${escapeXml(dist.asOfDate)}:</p>`, `<table>`);
+    for (const { label, key } of SCORE_RANGES) {
+      lines.push(`<tr><td>${label}</td><td>${Number(dist[key]).toLocaleString("en-CA")}</td></tr>`);
+    }
+    lines.push(`<tr><td>Total</td><td>${dist.total.toLocaleString("en-CA")}</td></tr>`);
+    lines.push(`</table>`);
+  }
+  lines.push(`<p><a href="${escapeXml(siteUrl)}#distribution">Pool distribution over time</a></p>`);
+  if (round.url) lines.push(`<p><a href="${escapeXml(round.url)}">IRCC round details</a></p>`);
+  return lines.join("\n");
+}
+
+/** Newest first, with the set of round numbers that more than one round uses */
+function prepare(items: FeedRound[]): { sorted: FeedRound[]; shared: Set<number> } {
+  const counts = new Map<number, number>();
+  items.forEach(({ round }) => counts.set(round.number, (counts.get(round.number) ?? 0) + 1));
+  const shared = new Set([...counts].filter(([, n]) => n > 1).map(([num]) => num));
+  const sorted = [...items].sort(
+    (a, b) => b.round.date.localeCompare(a.round.date) || b.round.number - a.round.number
+  );
+  return { sorted, shared };
+}
+
+export function buildAtomFeed(items: FeedRound[], { siteUrl, updated }: FeedOptions): string {
+  const { sorted, shared } = prepare(items);
+  const entries = sorted.map((item) => {
+    const link = item.round.url ?? siteUrl;
+    return `  <entry>
+    <id>${entryId(item, siteUrl, shared.has(item.round.number))}</id>
+    <title>${escapeXml(entryTitle(item))}</title>
+    <published>${entryTimestamp(item.round)}</published>
+    <updated>${entryTimestamp(item.round)}</updated>
+    <link rel="alternate" type="text/html" href="${escapeXml(link)}"/>
+    <category term="${escapeXml(item.categoryId)}" label="${escapeXml(item.category)}"/>
+    <content type="html">${escapeXml(entryHtml(item, siteUrl))}</content>
+  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>${TITLE}</title>
+  <subtitle>${DESCRIPTION}</subtitle>
+  <id>${escapeXml(siteUrl)}</id>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(siteUrl)}feed.xml"/>
+  <link rel="alternate" type="text/html" href="${escapeXml(siteUrl)}"/>
+  <updated>${updated}</updated>
+  <author><name>Express Entry CRS Score Tracker</name></author>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+export function buildRssFeed(items: FeedRound[], { siteUrl, updated }: FeedOptions): string {
+  const { sorted, shared } = prepare(items);
+  const rfc822 = (iso: string) => new Date(iso).toUTCString();
+  const entries = sorted.map((item) => {
+    const link = item.round.url ?? siteUrl;
+    return `    <item>
+      <title>${escapeXml(entryTitle(item))}</title>
+      <link>${escapeXml(link)}</link>
+      <guid isPermaLink="false">${entryId(item, siteUrl, shared.has(item.round.number))}</guid>
+      <pubDate>${rfc822(entryTimestamp(item.round))}</pubDate>
+      <category>${escapeXml(item.category)}</category>
+      <description>${escapeXml(entryHtml(item, siteUrl))}</description>
+    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${TITLE}</title>
+    <link>${escapeXml(siteUrl)}</link>
+    <description>${DESCRIPTION}</description>
+    <language>en-ca</language>
+    <lastBuildDate>${rfc822(updated)}</lastBuildDate>
+    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(siteUrl)}rss.xml"/>
+${entries.join("\n")}
+  </channel>
+</rss>
+`;
+}
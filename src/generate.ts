@@ -1,118 +1,93 @@
 import { readFileSync, writeFileSync, mkdirSync } from "fs";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
-import type { DrawData, DrawRound } from "./types.js";
+import { parseArgs } from "util";
+import type { DrawData } from "./types.js";
+import { classifyRound } from "./classify.js";
+import { loadCategoryRules, groupByCategory, getColor, legacyCategoryOrder } from "./categories.js";
+import { buildAtomFeed, buildRssFeed } from "./feed.js";
+import { buildDistributionSnapshots } from "./distribution.js";
+import { buildApi, listApiRounds } from "./api.js";
+import { buildExports, ROUND_COLUMNS, DISTRIBUTION_COLUMNS } from "./export.js";
+import { runBacktest, formatBacktest } from "./backtest.js";
+import { buildCadence } from "./cadence.js";
+import { loadTargets } from "./targets.js";
+import { estimatePoolFlows } from "./inflow.js";
+import { bundleForBrowser } from "./bundle.js";
+import { inlineVendorScripts, writeVendorAssets } from "./vendor.js";
+import { buildCategoryPages, buildSitemap, categoryPageLinks } from "./pages.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const DATA_FILE = join(__dirname, "data", "rounds.json");
 const OUTPUT_DIR = join(__dirname, "..", "dist");
 const OUTPUT_FILE = join(OUTPUT_DIR, "index.html");
-
-/** Normalize round types into broader categories for charting */
-function categorize(roundType: string): string {
-  const lower = roundType.toLowerCase();
-
-  if (lower.includes("no program specified") || lower === "general")
-    return "General";
-
-  if (lower.includes("provincial nominee")) return "Provincial Nominee Program";
-
-  if (lower.includes("canadian experience"))
-    return "Canadian Experience Class";
-
-  if (lower.includes("federal skilled worker"))
-    return "Federal Skilled Workers";
-
-  if (lower.includes("federal skilled trades"))
-    return "Federal Skilled Trades";
-
-  if (lower.includes("french")) return "French Language Proficiency";
-
-  if (lower.includes("healthcare") || lower.includes("health care"))
-    return "Healthcare Occupations";
-
-  if (lower.includes("stem")) return "STEM Occupations";
-
-  if (lower.includes("trade")) return "Trade Occupations";
-
-  if (lower.includes("transport")) return "Transport Occupations";
-
-  if (lower.includes("agriculture") || lower.includes("agri-food"))
-    return "Agriculture & Agri-food";
-
-  if (lower.includes("education")) return "Education Occupations";
-
-  // Keep original if no match
-  return roundType;
-}
-
-const COLORS: Record<string, string> = {
-  General: "#2563eb",
-  "Provincial Nominee Program": "#dc2626",
-  "Canadian Experience Class": "#16a34a",
-  "Federal Skilled Workers": "#9333ea",
-  "Federal Skilled Trades": "#ea580c",
-  "French Language Proficiency": "#0891b2",
-  "Healthcare Occupations": "#e11d48",
-  "STEM Occupations": "#4f46e5",
-  "Trade Occupations": "#b45309",
-  "Transport Occupations": "#6d28d9",
-  "Agriculture & Agri-food": "#15803d",
-  "Education Occupations": "#d97706",
-};
-
-function getColor(category: string, index: number): string {
-  if (COLORS[category]) return COLORS[category];
-  const fallback = [
-    "#f59e0b",
-    "#8b5cf6",
-    "#ec4899",
-    "#06b6d4",
-    "#84cc16",
-    "#f97316",
-    "#14b8a6",
-    "#a855f7",
-  ];
-  return fallback[index % fallback.length];
-}
+// Public address of the deployed site, used for absolute links in feeds
+const SITE_URL = (process.env.SITE_URL || "https://skfd.github.io/express_entry_score_stats/").replace(/\/?$/, "/");
 
 function main() {
+  const { values: args } = parseArgs({
+    options: {
+      // Fail the build when a round type matches no rule in categories.json
+      strict: { type: "boolean", default: false },
+      // Annual invitation targets (default: src/data/targets.json when present)
+      targets: { type: "string" },
+      // Inline the chart libraries and leave out analytics, so the page makes no third-party requests
+      offline: { type: "boolean", default: false },
+      // Leave out the GoatCounter script
+      "no-analytics": { type: "boolean", default: false },
+    },
+  });
+
   const raw = readFileSync(DATA_FILE, "utf-8");
   const data: DrawData = JSON.parse(raw);
   console.log(`Loaded ${data.rounds.length} rounds from ${DATA_FILE}`);
+  const rules = loadCategoryRules();
+
+  const categories = groupByCategory(data.rounds, rules);
 
-  // Group by category
-  const grouped = new Map<string, DrawRound[]>();
-  for (const round of data.rounds) {
-    const cat = categorize(round.roundType);
-    if (!grouped.has(cat)) grouped.set(cat, []);
-    grouped.get(cat)!.push(round);
+  console.log(`\nCategories:`);
+  for (const { category, rounds } of categories) {
+    console.log(`  ${category.name}: ${rounds.length} rounds`);
   }
 
-  // Sort categories by count (descending) for legend order
-  const categories = [...grouped.entries()].sort(
-    (a, b) => b[1].length - a[1].length
-  );
+  const unmatched = categories.filter((c) => !c.category.matched);
+  if (unmatched.length > 0) {
+    console.log(`\nRound types matching no rule in categories.json:`);
+    for (const { category, rounds } of unmatched) {
+      console.log(`  - "${category.name}" (${rounds.length} rounds, latest ${rounds[rounds.length - 1].date})`);
+    }
+    if (args.strict) {
+      console.error(`\n${unmatched.length} unmatched round type(s); add rules to src/data/categories.json`);
+      process.exit(1);
+    }
+  }
 
-  console.log(`\nCategories:`);
-  for (const [cat, rounds] of categories) {
-    console.log(`  ${cat}: ${rounds.length} rounds`);
+  const colored = categories.map((c, idx) => ({ ...c, color: getColor(c.category, idx) }));
+
+  const targets = loadTargets(args.targets);
+  for (const t of targets) {
+    if (t.category && !categories.some((c) => c.category.id === t.category)) {
+      console.warn(`Warning: ${t.year} target refers to unknown category "${t.category}"`);
+    }
   }
 
   // Build Chart.js datasets
-  const datasets = categories.map(([cat, rounds], idx) => {
-    const color = getColor(cat, idx);
+  const datasets = colored.map(({ category, color, rounds }) => {
     const sortedRounds = [...rounds].sort(
       (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()
     );
     return {
-      label: cat,
+      label: category.name,
+      id: category.id,
       data: sortedRounds.map((r) => ({
         x: r.date,
         y: r.crsScore,
         invitations: r.invitationsIssued,
         roundNumber: r.number,
         roundType: r.roundType,
+        version: classifyRound(r).version,
+        tieBreak: r.tieBreakingCutoff,
+        poolAsOf: r.distribution?.asOfDate,
       })),
       borderColor: color,
       backgroundColor: color + "33",
@@ -126,59 +101,36 @@ function main() {
 
   const chartData = JSON.stringify(datasets);
 
-  // Build distribution snapshots over time (deduplicated by asOfDate)
-  const distRounds = data.rounds
-    .filter((r) => r.distribution && r.distribution.total > 0)
-    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-  const seenDates = new Set<string>();
-  const distSnapshots: Array<{
-    date: string;
-    ranges: Record<string, number>;
-    total: number;
-  }> = [];
-
-  for (const r of distRounds) {
-    const d = r.distribution!;
-    const key = d.asOfDate || r.date;
-    if (seenDates.has(key)) continue;
-    seenDates.add(key);
-    distSnapshots.push({
-      date: r.date,
-      ranges: {
-        "601-1200": d.range601_1200,
-        "501-600": d.range501_600,
-        "491-500": d.range491_500,
-        "481-490": d.range481_490,
-        "471-480": d.range471_480,
-        "461-470": d.range461_470,
-        "451-460": d.range451_460,
-        "441-450": d.range441_450,
-        "431-440": d.range431_440,
-        "421-430": d.range421_430,
-        "411-420": d.range411_420,
-        "401-410": d.range401_410,
-        "351-400": d.range351_400,
-        "301-350": d.range301_350,
-        "0-300": d.range0_300,
-      },
-      total: d.total,
-    });
-  }
-
+  const distSnapshots = buildDistributionSnapshots(data.rounds);
   const distributionData = JSON.stringify(distSnapshots);
   console.log(`\nDistribution snapshots: ${distSnapshots.length}`);
 
+  // How well each projection method would have forecast past rounds
+  const backtest = runBacktest(categories, distSnapshots, { generatedAt: new Date().toISOString() });
+  console.log(`\n${formatBacktest(backtest)}`);
+
+  const cadence = buildCadence(categories, new Date().toISOString());
+  const poolFlows = estimatePoolFlows(distSnapshots, data.rounds);
+
+  // Pool and projection math shared with the Node scripts, compiled into the page
+  const analyticsScript = bundleForBrowser(join(__dirname, "analytics.ts"), "Analytics");
+
+  // Chart libraries from node_modules: inlined for --offline, otherwise hashed files next to the page
+  const vendorScripts = args.offline ? inlineVendorScripts() : writeVendorAssets(OUTPUT_DIR);
+  const goatCounter = args.offline || args["no-analytics"]
+    ? ""
+    : `<script data-goatcounter="https://express-entry-score-stats.goatcounter.com/count" async src="//gc.zgo.at/count.js"></script>`;
+
   const html = `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Canada Express Entry - CRS Score Trends</title>
+  <link rel="alternate" type="application/atom+xml" title="Express Entry rounds (Atom)" href="feed.xml" />
+  <link rel="alternate" type="application/rss+xml" title="Express Entry rounds (RSS)" href="rss.xml" />
   <link rel="icon" type="image/svg+xml" href="data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 64 64'%3E%3Cpath fill='%23f59e0b' d='M32 4L29 12l-4-2 2 7-8-4 2 6H14l5 5-7 3 8 3-3 7 6-3 1 7 4-5 2 8h4l2-8 4 5 1-7 6 3-3-7 8-3-7-3 5-5h-7l2-6-8 4 2-7-4 2z'/%3E%3Crect fill='%23f59e0b' x='29' y='46' width='6' height='14' rx='1'/%3E%3C/svg%3E" />
-  <script src="https://cdn.jsdelivr.net/npm/chart.js@4"></script>
-  <script src="https://cdn.jsdelivr.net/npm/chartjs-adapter-date-fns@3"></script>
-  <script src="https://cdn.jsdelivr.net/npm/chartjs-plugin-annotation@3"></script>
+  ${vendorScripts()}
   <style>
     :root {
       --bg: #0f172a;
@@ -301,6 +253,17 @@ function main() {
       transition: all 0.15s;
     }
     .controls button:hover { background: var(--bg-hover); }
+    .compare-controls { align-items: center; font-size: 0.8rem; color: var(--text-muted); }
+    .compare-controls[hidden] { display: none; }
+    .compare-controls select {
+      padding: 6px 8px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg-card);
+      color: var(--text);
+      font-size: 0.8rem;
+    }
+    .compare-controls #compareYears { display: flex; flex-wrap: wrap; gap: 8px; }
     .controls button.active {
       background: #3b82f6;
       border-color: #3b82f6;
@@ -374,6 +337,179 @@ function main() {
     .score-cards {
       display: contents;
     }
+    .profiles {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+    }
+    .profile {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+    .score-bar input.profile-name {
+      width: 100px;
+      padding: 8px;
+      font-size: 0.8rem;
+      font-weight: 500;
+      letter-spacing: normal;
+      text-align: left;
+    }
+    .profile-button {
+      padding: 4px 10px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg-card);
+      color: var(--text-muted);
+      font-size: 0.75rem;
+      cursor: pointer;
+    }
+    .profile-button:hover { background: var(--bg-hover); color: var(--text); }
+    .profile-button:disabled { opacity: 0.4; cursor: default; }
+    .calc-panel {
+      max-width: 1400px;
+      margin: 0 auto 16px;
+      background: var(--bg-card);
+      border-radius: 8px;
+      padding: 10px 16px;
+    }
+    .calc-panel summary {
+      cursor: pointer;
+      font-size: 0.85rem;
+      font-weight: 600;
+      color: var(--text-muted);
+    }
+    .calc-group {
+      margin-top: 12px;
+    }
+    .calc-group h4 {
+      font-size: 0.7rem;
+      color: var(--text-muted);
+      text-transform: uppercase;
+      margin-bottom: 6px;
+    }
+    .calc-fields {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(200px, 1fr));
+      gap: 8px 12px;
+    }
+    .calc-fields label {
+      display: flex;
+      flex-direction: column;
+      gap: 2px;
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+    .calc-fields select {
+      padding: 4px 6px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.8rem;
+    }
+    .calc-breakdown {
+      margin-top: 12px;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+    }
+    .calc-breakdown .pool-chip { border-left-color: #3b82f6; }
+    .accuracy-note {
+      margin-top: 8px;
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+    .accuracy-scroll { overflow-x: auto; }
+    .accuracy-table {
+      margin-top: 8px;
+      border-collapse: collapse;
+      font-size: 0.75rem;
+      width: 100%;
+    }
+    .accuracy-table th, .accuracy-table td {
+      padding: 4px 8px;
+      text-align: right;
+      border-bottom: 1px solid var(--border);
+      white-space: nowrap;
+    }
+    .accuracy-table th:first-child, .accuracy-table td:first-child { text-align: left; }
+    .accuracy-table th { color: var(--text-muted); font-weight: 600; }
+    .accuracy-table .selected { background: #f59e0b22; }
+    .accuracy-table .best { font-weight: 700; color: #16a34a; }
+    .table-panel {
+      max-width: 1400px;
+      margin: 12px auto 0;
+      background: var(--bg-card);
+      border-radius: 8px;
+      padding: 4px 16px 12px;
+    }
+    .cadence-table td.unusual { color: #dc2626; font-weight: 700; }
+    .rounds-filters {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px 16px;
+      padding-top: 8px;
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+    .rounds-filters input {
+      padding: 4px 6px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg);
+      color: var(--text);
+      font-size: 0.8rem;
+    }
+    .rounds-filters input[type="number"] { width: 72px; }
+    .rounds-count { margin-left: auto; }
+    .rounds-table .text { text-align: left; }
+    .rounds-table th button {
+      background: none;
+      border: none;
+      color: inherit;
+      font: inherit;
+      cursor: pointer;
+    }
+    .rounds-table th[aria-sort="ascending"] button::after { content: ' \\25B2'; }
+    .rounds-table th[aria-sort="descending"] button::after { content: ' \\25BC'; }
+    .rounds-table tbody tr { cursor: pointer; }
+    .rounds-table tbody tr:hover { background: var(--bg-hover); }
+    .rounds-pager {
+      display: flex;
+      justify-content: flex-end;
+      align-items: center;
+      gap: 8px;
+      padding-top: 8px;
+      font-size: 0.75rem;
+      color: var(--text-muted);
+    }
+    .rounds-pager button {
+      padding: 2px 10px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg-card);
+      color: var(--text);
+      cursor: pointer;
+    }
+    .rounds-pager button:disabled { opacity: 0.4; cursor: default; }
+    .accuracy-table td.negative { color: #dc2626; }
+    .accuracy-table .highlight { font-weight: 700; }
+    .gap-chip {
+      display: inline-block;
+      margin-left: 4px;
+      padding: 0 6px;
+      border-radius: 4px;
+      background: var(--bg);
+    }
+    .gap-chip.long, .gap-chip.short { background: #dc262622; color: #dc2626; font-weight: 700; }
+    .cadence-weekdays {
+      margin-top: 10px;
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+    }
     .score-result-card {
       background: var(--bg-card);
       border-radius: 8px;
@@ -398,6 +534,21 @@ function main() {
     .score-result-card .result-text.eligible { color: #16a34a; }
     .score-result-card .result-text.projected { color: #d97706; }
     .score-result-card .result-text.unlikely { color: #dc2626; }
+    .score-result-card .result-columns {
+      display: flex;
+      gap: 16px;
+    }
+    .score-result-card .result-profile {
+      font-size: 0.6rem;
+      font-weight: 700;
+      white-space: nowrap;
+    }
+    .score-result-card .result-odds {
+      font-size: 0.7rem;
+      color: var(--text-muted);
+      white-space: nowrap;
+      margin-top: 2px;
+    }
     .section-heading {
       text-align: center;
       margin-top: 32px;
@@ -408,6 +559,16 @@ function main() {
     .pool-position-inline {
       display: contents;
     }
+    .pool-profile {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .pool-profile-name {
+      font-size: 0.75rem;
+      font-weight: 700;
+      white-space: nowrap;
+    }
     .pool-chip {
       background: var(--bg-card);
       border-radius: 8px;
@@ -428,6 +589,45 @@ function main() {
     .pool-chip .chip-val.good { color: #16a34a; }
     .pool-chip .chip-val.warn { color: #d97706; }
     .pool-chip .chip-val.bad { color: #dc2626; }
+    .pool-chip .chip-range {
+      font-size: 0.6rem;
+      color: var(--text-faint);
+    }
+    .export-bar {
+      max-width: 1400px;
+      margin: 8px auto 0;
+      display: flex;
+      gap: 8px;
+      justify-content: flex-end;
+    }
+    .export-bar button {
+      padding: 4px 12px;
+      border: 1px solid var(--border);
+      border-radius: 6px;
+      background: var(--bg-card);
+      color: var(--text-muted);
+      cursor: pointer;
+      font-size: 0.75rem;
+    }
+    .export-bar button:hover { background: var(--bg-hover); color: var(--text); }
+    .category-pages .others {
+      display: flex;
+      flex-wrap: wrap;
+      justify-content: center;
+      gap: 8px;
+      list-style: none;
+      max-width: 1400px;
+      margin: 0 auto 20px;
+    }
+    .category-pages a {
+      display: block;
+      background: var(--bg-card);
+      border-radius: 6px;
+      padding: 4px 10px;
+      font-size: 0.85rem;
+      text-decoration: none;
+      color: var(--link);
+    }
     .footer {
       text-align: center;
       margin-top: 20px;
@@ -436,13 +636,18 @@ function main() {
     }
     .footer a { color: var(--link); }
   </style>
-  <script data-goatcounter="https://express-entry-score-stats.goatcounter.com/count" async src="//gc.zgo.at/count.js"></script>
+  ${goatCounter}
 </head>
 <body>
   <h1>Canada Express Entry &mdash; CRS Score Trends</h1>
   <p class="subtitle">Minimum CRS score required per invitation round, grouped by program type</p>
 
   <div class="toolbar">
+    <div class="toolbar-group" id="chartView">
+      <button class="active" data-view="crs">CRS Cutoffs</button>
+      <button data-view="invitations">Invitations</button>
+      <button data-view="compare">Year over Year</button>
+    </div>
     <div class="toolbar-group" id="timeRange">
       <button class="active" data-range="all">All Time</button>
       <button data-range="3y">Last 3 Years</button>
@@ -453,6 +658,10 @@ function main() {
       <button data-proj="moving-avg">Moving Avg</button>
       <button data-proj="poly">Polynomial</button>
     </div>
+    <div class="toolbar-group" id="versionMode">
+      <button class="active" data-split="off">Merge Versions</button>
+      <button data-split="on">Split by Version</button>
+    </div>
     <div class="toolbar-group" id="themeToggle">
       <button data-theme="auto" class="active">Auto</button>
       <button data-theme="light">Light</button>
@@ -461,22 +670,97 @@ function main() {
   </div>
   <div class="score-bar">
     <label for="scoreInput">Your CRS Score</label>
-    <input type="number" id="scoreInput" min="0" max="1200" placeholder="480" />
+    <div class="profiles" id="profiles"></div>
+    <button type="button" class="profile-button" id="addProfile" title="Compare another score, e.g. your spouse as principal applicant">+ Add profile</button>
     <div id="poolPosition" class="pool-position-inline" style="display:none;"></div>
     <div class="score-cards" id="scoreResults"></div>
   </div>
+  <details class="calc-panel" id="calcPanel">
+    <summary>Calculate your CRS score</summary>
+    <div id="calcFields"></div>
+    <div class="calc-breakdown" id="calcBreakdown"></div>
+  </details>
+  <details class="calc-panel" id="accuracyPanel">
+    <summary>Projection accuracy</summary>
+    <p class="accuracy-note" id="accuracyNote"></p>
+    <div class="accuracy-scroll"><table class="accuracy-table" id="accuracyTable"></table></div>
+  </details>
   <div class="controls" id="controls"></div>
+  <div class="controls compare-controls" id="compareControls" hidden>
+    <label for="compareCategory">Compare years of</label>
+    <select id="compareCategory"></select>
+    <span id="compareYears"></span>
+  </div>
   <div class="chart-container">
     <canvas id="chart"></canvas>
   </div>
+  <div class="export-bar">
+    <button id="exportRounds" title="Rounds in the selected time range and categories">Download CSV</button>
+  </div>
   <div class="stats" id="stats"></div>
+  <div class="table-panel" id="roundsPanel">
+    <div class="rounds-filters">
+      <label>Round type <input type="search" id="roundsSearch" placeholder="e.g. French" /></label>
+      <label>CRS <input type="number" id="roundsCrsMin" min="0" max="1200" placeholder="min" /> &ndash; <input type="number" id="roundsCrsMax" min="0" max="1200" placeholder="max" /></label>
+      <label>Invitations <input type="number" id="roundsInvMin" min="0" placeholder="min" /> &ndash; <input type="number" id="roundsInvMax" min="0" placeholder="max" /></label>
+      <span class="rounds-count" id="roundsCount"></span>
+    </div>
+    <div class="accuracy-scroll"><table class="accuracy-table rounds-table" id="roundsTable"></table></div>
+    <div class="rounds-pager" id="roundsPager"></div>
+  </div>
+
+  <h2 class="section-heading" id="annual">Invitations per Year</h2>
+  <p class="subtitle">Cumulative invitations issued through each calendar year for the selected categories, with targets from targets.json</p>
+  <div class="chart-container" id="annualChartContainer">
+    <canvas id="annualChart"></canvas>
+  </div>
+  <div class="table-panel">
+    <div class="accuracy-scroll"><table class="accuracy-table" id="annualTable"></table></div>
+  </div>
+
+  <div id="simSection" style="display:none;">
+    <h2 class="section-heading" id="probability">Invitation Probability</h2>
+    <p class="subtitle">Chance of an invitation by each date for your score (the first profile's, if you've added several), from simulated futures that resample recent draw cadence, draw sizes, category mix and pool growth</p>
+    <div class="chart-container" id="simChartContainer">
+      <canvas id="simChart"></canvas>
+    </div>
+  </div>
+
+  <h2 class="section-heading" id="cadence">Draw Cadence</h2>
+  <p class="subtitle">Draw dates per month, time since each category's last draw, and when the next one usually comes</p>
+
+  <div class="chart-container" id="cadenceChartContainer">
+    <canvas id="cadenceChart"></canvas>
+  </div>
+  <div class="table-panel">
+    <div class="accuracy-scroll"><table class="accuracy-table cadence-table" id="cadenceTable"></table></div>
+    <div class="cadence-weekdays" id="cadenceWeekdays"></div>
+  </div>
 
-  <h2 class="section-heading">CRS Score Pool Distribution</h2>
+  <h2 class="section-heading" id="distribution">CRS Score Pool Distribution</h2>
   <p class="subtitle">Number of candidates in the Express Entry pool by score range over time</p>
 
   <div class="chart-container" id="distChartContainer">
     <canvas id="distChart"></canvas>
   </div>
+  <div class="export-bar">
+    <button id="exportDistributions" title="Pool snapshots in the selected time range">Download CSV</button>
+  </div>
+
+  <h2 class="section-heading" id="inflow">Estimated Pool Inflow</h2>
+  <p class="subtitle">Candidates arriving per week in each score range between snapshots: the change in the pool plus the invitations issued in between, attributed to ranges by each round's cutoff. Inflow above 500 is what moves cutoffs.</p>
+  <div class="chart-container" id="inflowChartContainer">
+    <canvas id="inflowChart"></canvas>
+  </div>
+  <div class="table-panel">
+    <div class="accuracy-scroll"><table class="accuracy-table" id="inflowTable"></table></div>
+  </div>
+
+  <h2 class="section-heading" id="categories">Category Pages</h2>
+  <p class="subtitle">Every round of a category in a sortable table, with its own chart and stats</p>
+  <nav class="category-pages" aria-label="Category pages">
+    ${categoryPageLinks(colored)}
+  </nav>
 
   <p class="footer">
     Contains information licensed under the <a href="https://open.canada.ca/en/open-government-licence-canada">Open Government Licence &ndash; Canada</a>.
@@ -489,21 +773,53 @@ function main() {
     and <a href="https://github.com/chartjs/chartjs-plugin-annotation">chartjs-plugin-annotation</a>
     (MIT License)
     &middot; <a href="https://github.com/skfd/express_entry_score_stats">View on GitHub</a>
+    &middot; <a href="feed.xml">Atom</a> / <a href="rss.xml">RSS</a> feed of new rounds
   </p>
 
   <script>
     const originalDatasets = ${chartData};
+    ${analyticsScript}
+    const {
+      SCORE_RANGES, PREDICTION_BANDS, movingAverage,
+      fitTrend, scoreRangeIndex, countAboveScore, findClosestSnapshot, projectedCrossing,
+    } = Analytics;
+
     const distributionSnapshots = ${distributionData};
+    const ROUND_CSV_COLUMNS = ${JSON.stringify(ROUND_COLUMNS)};
+    const DISTRIBUTION_CSV_COLUMNS = ${JSON.stringify(DISTRIBUTION_COLUMNS)};
+    const BACKTEST = ${JSON.stringify(backtest)};
+    const CADENCE = ${JSON.stringify(cadence)};
+    const ANNUAL_TARGETS = ${JSON.stringify(targets)};
+    const LEGACY_CATEGORY_ORDER = ${JSON.stringify(legacyCategoryOrder(categories, data.rounds))};
+    const POOL_FLOWS = ${JSON.stringify(poolFlows)};
     const PROJECTION_MONTHS = 6;
-    const MOVING_AVG_WINDOW = 6;
 
     // Stubs — replaced once distribution chart is initialized
-    var onScoreChanged = function(score) {};
+    var onScoreChanged = function() {};
     var onTimeRangeChanged = function() {};
     var onThemeChanged = function() {};
+    var onCategoriesChanged = function() {};
 
     // ========== URL state persistence ==========
 
+    // Applicant profiles; each gets its own score line, eligibility column and pool chips
+    const PROFILE_COLORS = ['#f59e0b', '#ec4899', '#06b6d4', '#84cc16', '#8b5cf6'];
+    const DEFAULT_PROFILE_NAME = 'You';
+
+    function defaultProfileName(i) {
+      return i === 0 ? DEFAULT_PROFILE_NAME : 'Profile ' + (i + 1);
+    }
+
+    // "Alex:480" as { name: 'Alex', score: 480 }; the name may itself contain colons
+    function parseProfile(text, i) {
+      const sep = text.lastIndexOf(':');
+      const score = sep === -1 ? 0 : parseInt(text.slice(sep + 1), 10);
+      return {
+        name: (sep === -1 ? text : text.slice(0, sep)).trim() || defaultProfileName(i),
+        score: score >= 0 && score <= 1200 ? score : 0,
+      };
+    }
+
     function readURL() {
       const p = new URLSearchParams(window.location.search);
       return {
@@ -511,7 +827,19 @@ function main() {
         proj: p.get('proj') || 'off',
         hide: p.get('hide') ? p.get('hide').split(',').filter(Boolean) : [],
         score: p.get('score') || '',
+        profiles: p.getAll('profile').slice(0, PROFILE_COLORS.length).map(parseProfile),
         theme: p.get('theme') || 'auto',
+        split: p.get('split') === '1',
+        calc: p.get('calc') || '',
+        view: p.get('view') || 'crs',
+        q: p.get('q') || '',
+        crs: p.get('crs') || '',
+        inv: p.get('inv') || '',
+        sort: p.get('sort') || 'date-desc',
+        page: p.get('page') || '1',
+        round: p.get('round') || '',
+        cmp: p.get('cmp') || '',
+        years: p.get('years') ? p.get('years').split(',').map(y => parseInt(y, 10)).filter(y => y > 0) : [],
       };
     }
 
@@ -520,12 +848,29 @@ function main() {
       if (timeRange !== 'all') p.set('range', timeRange);
       if (projectionMode !== 'off') p.set('proj', projectionMode);
       if (hiddenCategories.size > 0) {
-        const indices = [];
-        originalDatasets.forEach((ds, i) => { if (hiddenCategories.has(ds.label)) indices.push(i); });
-        p.set('hide', indices.join(','));
+        const ids = originalDatasets.filter(ds => hiddenCategories.has(ds.label)).map(ds => ds.id);
+        p.set('hide', ids.join(','));
+      }
+      // A lone unnamed profile keeps the short ?score= form of older bookmarks
+      if (profiles.length === 1 && profiles[0].name === DEFAULT_PROFILE_NAME) {
+        if (profiles[0].score > 0) p.set('score', String(profiles[0].score));
+      } else {
+        profiles.forEach(pr => p.append('profile', pr.name + ':' + pr.score));
       }
-      if (userScore > 0) p.set('score', String(userScore));
       if (currentTheme !== 'auto') p.set('theme', currentTheme);
+      if (splitVersions) p.set('split', '1');
+      if (calcActive) p.set('calc', serializeCalc());
+      if (chartView !== 'crs') p.set('view', chartView);
+      if (chartView === 'compare') {
+        p.set('cmp', compareCategory);
+        p.set('years', [...compareYears].sort((a, b) => a - b).join(','));
+      }
+      if (roundsState.q) p.set('q', roundsState.q);
+      if (formatRange(roundsState.crs)) p.set('crs', formatRange(roundsState.crs));
+      if (formatRange(roundsState.inv)) p.set('inv', formatRange(roundsState.inv));
+      if (roundsState.sort !== 'date' || roundsState.dir !== 'desc') p.set('sort', roundsState.sort + '-' + roundsState.dir);
+      if (roundsState.page > 1) p.set('page', String(roundsState.page));
+      if (roundsState.round !== null) p.set('round', String(roundsState.round));
       const qs = p.toString();
       const url = window.location.pathname + (qs ? '?' + qs : '');
       history.replaceState(null, '', url);
@@ -534,8 +879,37 @@ function main() {
     const initState = readURL();
     let projectionMode = initState.proj;
     let timeRange = initState.range;
-    let userScore = initState.score ? parseInt(initState.score, 10) : 0;
+    let profiles = initState.profiles.length
+      ? initState.profiles
+      : [parseProfile(':' + initState.score, 0)];
     let currentTheme = initState.theme;
+    let splitVersions = initState.split;
+    let calcActive = initState.calc !== '';
+    let chartView = initState.view;
+    let compareCategory = initState.cmp;
+    let compareYears = new Set(initState.years);
+
+    // "480-520", "480-" or "-520" as [min, max], with null for an open end
+    function parseRange(text) {
+      const [lo = '', hi = ''] = text.split('-');
+      const num = s => (s.trim() === '' || isNaN(s) ? null : Number(s));
+      return [num(lo), num(hi)];
+    }
+
+    function formatRange([lo, hi]) {
+      return lo === null && hi === null ? '' : (lo === null ? '' : lo) + '-' + (hi === null ? '' : hi);
+    }
+
+    const [initSortKey, initSortDir] = initState.sort.split('-');
+    const roundsState = {
+      q: initState.q,
+      crs: parseRange(initState.crs),
+      inv: parseRange(initState.inv),
+      sort: initSortKey,
+      dir: initSortDir === 'asc' ? 'asc' : 'desc',
+      page: Math.max(1, parseInt(initState.page, 10) || 1),
+      round: initState.round ? parseInt(initState.round, 10) : null,
+    };
 
     // ========== Theme management ==========
 
@@ -596,107 +970,75 @@ function main() {
 
     // ========== Projection math ==========
 
-    // Linear regression: y = slope * x + intercept
-    function linearRegression(pts) {
-      const n = pts.length;
-      if (n < 2) return null;
-      let sx = 0, sy = 0, sxy = 0, sxx = 0;
-      for (const p of pts) { sx += p.x; sy += p.y; sxy += p.x * p.y; sxx += p.x * p.x; }
-      const d = n * sxx - sx * sx;
-      if (Math.abs(d) < 1e-10) return null;
-      const slope = (n * sxy - sx * sy) / d;
-      const intercept = (sy - slope * sx) / n;
-      return { eval: (x) => slope * x + intercept, slope, intercept };
-    }
-
-    // Polynomial (quadratic) regression: y = a*x^2 + b*x + c
-    // Normalises timestamps to avoid floating-point blowup
-    function polyRegression(pts) {
-      const n = pts.length;
-      if (n < 4) return linearRegression(pts); // fall back
-      const xMin = pts[0].x;
-      const xRange = pts[n - 1].x - xMin || 1;
-      const norm = pts.map(p => ({ x: (p.x - xMin) / xRange, y: p.y }));
-
-      let s0=n, s1=0, s2=0, s3=0, s4=0, t0=0, t1=0, t2=0;
-      for (const p of norm) {
-        const x = p.x, x2 = x*x;
-        s1 += x; s2 += x2; s3 += x2*x; s4 += x2*x2;
-        t0 += p.y; t1 += x*p.y; t2 += x2*p.y;
-      }
-      // Solve 3x3 system via Cramer's rule
-      const M = [
-        [s0, s1, s2],
-        [s1, s2, s3],
-        [s2, s3, s4],
-      ];
-      const T = [t0, t1, t2];
-      function det3(m) {
-        return m[0][0]*(m[1][1]*m[2][2]-m[1][2]*m[2][1])
-             - m[0][1]*(m[1][0]*m[2][2]-m[1][2]*m[2][0])
-             + m[0][2]*(m[1][0]*m[2][1]-m[1][1]*m[2][0]);
-      }
-      const D = det3(M);
-      if (Math.abs(D) < 1e-20) return linearRegression(pts);
-      function replCol(m, col, v) {
-        return m.map((row, i) => row.map((c, j) => j === col ? v[i] : c));
-      }
-      const c = det3(replCol(M, 0, T)) / D;
-      const b = det3(replCol(M, 1, T)) / D;
-      const a = det3(replCol(M, 2, T)) / D;
-      return {
-        eval: (x) => {
-          const xn = (x - xMin) / xRange;
-          return a * xn * xn + b * xn + c;
-        },
-        a, b, c,
-      };
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    function attachBand(pt, center, sd) {
+      pt.band = {};
+      PREDICTION_BANDS.forEach(b => {
+        pt.band[b.level] = [Math.max(0, Math.round(center - b.z * sd)), Math.max(0, Math.round(center + b.z * sd))];
+      });
+    }
+
+    // Shaded area per band level: the upper edge fills down to the lower edge pushed after it
+    function bandDatasets(proj, color) {
+      const pts = proj.data.filter(p => p.band);
+      if (!pts.length) return [];
+      const alpha = { 95: '1a', 80: '33' };
+      const edge = (b, side, fill) => ({
+        label: proj.label + ' ' + b.level + '% ' + side,
+        data: pts.map(p => ({ x: p.x, y: p.band[b.level][side === 'upper' ? 1 : 0] })),
+        borderColor: 'transparent',
+        backgroundColor: color + alpha[b.level],
+        borderWidth: 0,
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        pointHitRadius: 0,
+        tension: 0.3,
+        showLine: true,
+        fill,
+        _isProjection: true,
+        _isBand: true,
+      });
+      return PREDICTION_BANDS.flatMap(b => [edge(b, 'upper', '+1'), edge(b, 'lower', false)]);
     }
 
     // Moving average (trailing window) — returns smoothed series + projected continuation
     function movingAvgProjection(filtered, dsLabel, dsColor) {
-      if (filtered.length < MOVING_AVG_WINDOW) return null;
-
       const sorted = [...filtered].sort((a, b) => new Date(a.x).getTime() - new Date(b.x).getTime());
+      const pts = sorted.map(d => ({ x: new Date(d.x).getTime(), y: d.y }));
+      const trend = fitTrend(pts, 'moving-avg');
+      if (!trend) return null;
+
       // Smoothed overlay on historical data
-      const smoothed = [];
-      for (let i = MOVING_AVG_WINDOW - 1; i < sorted.length; i++) {
-        let sum = 0;
-        for (let j = i - MOVING_AVG_WINDOW + 1; j <= i; j++) sum += sorted[j].y;
-        smoothed.push({
-          x: sorted[i].x,
-          y: Math.round(sum / MOVING_AVG_WINDOW),
+      const smoothed = movingAverage(pts).map(p => ({
+        x: new Date(p.x).toISOString().split('T')[0],
+        y: Math.round(p.y),
+        roundNumber: '~',
+        roundType: dsLabel + ' (moving avg)',
+        invitations: 0,
+        isProjection: true,
+        projMethod: 'moving-avg',
+      }));
+
+      // Project forward along the line through the last few smoothed points
+      const { reg, spread } = trend;
+      const lastDate = new Date(smoothed[smoothed.length - 1].x);
+      const endDate = new Date(lastDate);
+      endDate.setMonth(endDate.getMonth() + PROJECTION_MONTHS);
+      const startT = lastDate.getTime(), endT = endDate.getTime();
+      for (let i = 1; i <= 12; i++) {
+        const t = startT + (endT - startT) * (i / 12);
+        const pt = {
+          x: new Date(t).toISOString().split('T')[0],
+          y: Math.max(0, Math.round(reg.eval(t))),
           roundNumber: '~',
-          roundType: dsLabel + ' (moving avg)',
+          roundType: dsLabel + ' (moving avg forecast)',
           invitations: 0,
           isProjection: true,
           projMethod: 'moving-avg',
-        });
-      }
-
-      // Project forward: use slope of last few smoothed points
-      if (smoothed.length >= 2) {
-        const tail = smoothed.slice(-3);
-        const pts = tail.map(p => ({ x: new Date(p.x).getTime(), y: p.y }));
-        const reg = linearRegression(pts);
-        if (reg) {
-          const lastDate = new Date(smoothed[smoothed.length - 1].x);
-          const endDate = new Date(lastDate);
-          endDate.setMonth(endDate.getMonth() + PROJECTION_MONTHS);
-          const startT = lastDate.getTime(), endT = endDate.getTime();
-          for (let i = 1; i <= 12; i++) {
-            const t = startT + (endT - startT) * (i / 12);
-            smoothed.push({
-              x: new Date(t).toISOString().split('T')[0],
-              y: Math.max(0, Math.round(reg.eval(t))),
-              roundNumber: '~',
-              roundType: dsLabel + ' (moving avg forecast)',
-              invitations: 0,
-              isProjection: true,
-              projMethod: 'moving-avg',
-            });
-          }
-        }
+        };
+        if (spread) attachBand(pt, reg.eval(t), spread(t));
+        smoothed.push(pt);
       }
 
       return {
@@ -714,13 +1056,14 @@ function main() {
       };
     }
 
-    // Generic regression projection (linear or poly)
-    function regressionProjection(filtered, dsLabel, dsColor, regFn, dashPattern, suffix) {
+    // Regression projection ('linear' or 'poly' trend)
+    function regressionProjection(filtered, dsLabel, dsColor, mode, dashPattern, suffix) {
       if (filtered.length < 3) return null;
       const sorted = [...filtered].sort((a, b) => new Date(a.x).getTime() - new Date(b.x).getTime());
       const pts = sorted.map(d => ({ x: new Date(d.x).getTime(), y: d.y }));
-      const reg = regFn(pts);
-      if (!reg) return null;
+      const trend = fitTrend(pts, mode);
+      if (!trend) return null;
+      const { reg, spread } = trend;
 
       const projPoints = [];
       // Trend line over historical range
@@ -733,7 +1076,7 @@ function main() {
       for (let i = 0; i <= totalSteps; i++) {
         const t = firstT + (projEndT - firstT) * (i / totalSteps);
         const isFuture = t > lastT;
-        projPoints.push({
+        const pt = {
           x: new Date(t).toISOString().split('T')[0],
           y: Math.max(0, Math.round(reg.eval(t))),
           roundNumber: '~',
@@ -741,7 +1084,9 @@ function main() {
           invitations: 0,
           isProjection: true,
           projMethod: suffix,
-        });
+        };
+        if (isFuture && spread) attachBand(pt, reg.eval(t), spread(t));
+        projPoints.push(pt);
       }
 
       return {
@@ -759,48 +1104,161 @@ function main() {
       };
     }
 
-    // ========== Dataset builder ==========
+    function formatTieBreak(iso) {
+      return new Date(iso).toLocaleString('en-CA', {
+        year: 'numeric', month: 'short', day: 'numeric',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+        hour12: false, timeZone: 'UTC',
+      }) + ' UTC';
+    }
 
-    function buildDatasets() {
-      const cutoff = timeRange === '3y'
-        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
-        : 0;
+    // ========== Dataset builder ==========
 
-      const result = [];
+    // Split a category into one series per eligibility version (unchanged if it has only one)
+    const VERSION_POINT_STYLES = ['circle', 'rect', 'triangle', 'rectRot', 'star'];
+
+    function splitByVersion(ds) {
+      const versions = [...new Set(ds.data.map(d => d.version || 0))].sort((a, b) => a - b);
+      if (versions.length < 2) return [ds];
+      return versions.map((v, i) => ({
+        ...ds,
+        label: ds.label + (v ? ' v' + v : ''),
+        data: ds.data.filter(d => (d.version || 0) === v),
+        pointStyle: VERSION_POINT_STYLES[i % VERSION_POINT_STYLES.length],
+      }));
+    }
+
+    const YEAR_COLORS = [
+      '#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899',
+      '#06b6d4', '#84cc16', '#f97316', '#64748b', '#14b8a6', '#a855f7',
+    ];
+    const REF_YEAR = 2000; // a leap year, so Feb 29 has a place
+    const onRefYear = date => REF_YEAR + date.slice(4);
+
+    // Compare view: one line per selected year of one category, laid over the same January-December axis
+    function compareDatasets() {
+      const ds = originalDatasets.find(d => d.id === compareCategory);
+      if (!ds) return [];
+      const latest = Math.max(...compareYears);
+      return [...compareYears].sort((a, b) => a - b).map(year => {
+        const color = YEAR_COLORS[year % YEAR_COLORS.length];
+        return {
+          label: ds.label + ' ' + year,
+          data: ds.data
+            .filter(d => d.x.startsWith(year + '-'))
+            .map(d => ({ ...d, x: onRefYear(d.x), date: d.x })),
+          borderColor: color,
+          backgroundColor: color,
+          borderWidth: year === latest ? 3 : 1.5,
+          pointRadius: 3,
+          showLine: true,
+          tension: 0.1,
+        };
+      });
+    }
+
+    function buildDatasets() {
+      if (chartView === 'compare') return compareDatasets();
+
+      const cutoff = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
+        : 0;
+
+      const result = [];
 
       for (const ds of originalDatasets) {
-        const filtered = cutoff > 0
-          ? ds.data.filter(d => new Date(d.x).getTime() >= cutoff)
-          : ds.data.slice();
+        const first = result.length;
+
+        for (const series of splitVersions ? splitByVersion(ds) : [ds]) {
+          const filtered = cutoff > 0
+            ? series.data.filter(d => new Date(d.x).getTime() >= cutoff)
+            : series.data.slice();
+
+          // Invitations view: one bar per round, CRS kept for the tooltip
+          if (chartView === 'invitations') {
+            result.push({
+              ...series,
+              type: 'bar',
+              data: filtered.map(d => ({ ...d, y: d.invitations, crs: d.y })),
+              backgroundColor: ds.borderColor + 'cc',
+              barThickness: 4,
+              showLine: false,
+            });
+            continue;
+          }
 
-        result.push({ ...ds, data: filtered });
+          result.push({ ...series, data: filtered });
 
-        if (projectionMode === 'off' || filtered.length < 3) continue;
+          if (projectionMode === 'off' || filtered.length < 3) continue;
 
-        if (projectionMode === 'linear') {
-          const proj = regressionProjection(filtered, ds.label, ds.borderColor, linearRegression, [6, 4], 'linear');
-          if (proj) result.push(proj);
-        }
-        if (projectionMode === 'moving-avg') {
-          const proj = movingAvgProjection(filtered, ds.label, ds.borderColor);
-          if (proj) result.push(proj);
-        }
-        if (projectionMode === 'poly') {
-          const proj = regressionProjection(filtered, ds.label, ds.borderColor, polyRegression, [8, 3, 2, 3], 'polynomial');
-          if (proj) result.push(proj);
+          let proj = null;
+          if (projectionMode === 'linear') {
+            proj = regressionProjection(filtered, series.label, ds.borderColor, 'linear', [6, 4], 'linear');
+          }
+          if (projectionMode === 'moving-avg') {
+            proj = movingAvgProjection(filtered, series.label, ds.borderColor);
+          }
+          if (projectionMode === 'poly') {
+            proj = regressionProjection(filtered, series.label, ds.borderColor, 'poly', [8, 3, 2, 3], 'polynomial');
+          }
+          if (proj) result.push(...bandDatasets(proj, ds.borderColor), proj);
         }
+
+        // Tag every series with its category so toggling hides versions and projections too
+        for (let i = first; i < result.length; i++) result[i]._category = ds.label;
       }
 
       return result;
     }
 
+    // Vertical markers where a category switched to a new eligibility version
+    function updateVersionBoundaries(target) {
+      const annotations = target.options.plugins.annotation.annotations;
+      Object.keys(annotations).forEach(k => { if (k.startsWith('version_')) delete annotations[k]; });
+      if (!splitVersions || chartView === 'compare') return;
+
+      const cutoff = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
+        : 0;
+
+      originalDatasets.forEach((ds, dsIdx) => {
+        if (hiddenCategories.has(ds.label)) return;
+        const seen = new Set();
+        ds.data.forEach(d => {
+          const v = d.version || 0;
+          if (seen.has(v)) return;
+          seen.add(v);
+          if (seen.size === 1 || new Date(d.x).getTime() < cutoff) return;
+          annotations['version_' + dsIdx + '_' + v] = {
+            type: 'line',
+            xMin: d.x,
+            xMax: d.x,
+            borderColor: ds.borderColor,
+            borderWidth: 1,
+            borderDash: [4, 4],
+            label: {
+              display: true,
+              content: ds.label + (v ? ' v' + v : ''),
+              position: 'start',
+              backgroundColor: ds.borderColor + 'cc',
+              color: '#ffffff',
+              font: { size: 10 },
+              padding: { top: 2, bottom: 2, left: 4, right: 4 },
+            },
+          };
+        });
+      });
+    }
+
     // ========== Category toggle buttons ==========
 
     // Restore hidden categories from URL
     const hiddenCategories = new Set();
-    initState.hide.forEach(idx => {
-      const i = parseInt(idx, 10);
-      if (originalDatasets[i]) hiddenCategories.add(originalDatasets[i].label);
+    initState.hide.forEach(key => {
+      // Category ids; plain numbers are indices into the count-sorted list older bookmarks used
+      const id = /^\\d+$/.test(key) ? LEGACY_CATEGORY_ORDER[parseInt(key, 10)] : key;
+      const ds = originalDatasets.find(d => d.id === id);
+      if (ds) hiddenCategories.add(ds.label);
     });
 
     const controlsEl = document.getElementById('controls');
@@ -822,8 +1280,65 @@ function main() {
       categoryButtons.push(btn);
     });
 
+    // ========== Year-over-year controls ==========
+
+    const compareControls = document.getElementById('compareControls');
+    const compareSelect = document.getElementById('compareCategory');
+    originalDatasets.forEach(ds => compareSelect.add(new Option(ds.label, ds.id)));
+
+    // Years the category has rounds in; keeps the chosen ones that still apply, else the latest three
+    function buildCompareControls() {
+      if (!originalDatasets.some(ds => ds.id === compareCategory)) {
+        const firstVisible = originalDatasets.find(ds => !hiddenCategories.has(ds.label)) || originalDatasets[0];
+        compareCategory = firstVisible.id;
+      }
+      compareSelect.value = compareCategory;
+      const ds = originalDatasets.find(d => d.id === compareCategory);
+      const years = [...new Set(ds.data.map(d => parseInt(d.x.slice(0, 4), 10)))].sort((a, b) => a - b);
+      compareYears = new Set([...compareYears].filter(y => years.includes(y)));
+      if (compareYears.size === 0) compareYears = new Set(years.slice(-3));
+
+      const yearsEl = document.getElementById('compareYears');
+      yearsEl.innerHTML = '';
+      years.forEach(year => {
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.textContent = year;
+        btn.style.borderLeftColor = YEAR_COLORS[year % YEAR_COLORS.length];
+        btn.style.borderLeftWidth = '3px';
+        btn.className = compareYears.has(year) ? 'active' : '';
+        btn.addEventListener('click', () => {
+          if (compareYears.has(year)) {
+            if (compareYears.size === 1) return; // keep at least one line
+            compareYears.delete(year);
+          } else {
+            compareYears.add(year);
+          }
+          btn.classList.toggle('active', compareYears.has(year));
+          rebuildChart();
+          writeURL();
+        });
+        yearsEl.appendChild(btn);
+      });
+    }
+
+    compareSelect.addEventListener('change', () => {
+      compareCategory = compareSelect.value;
+      buildCompareControls();
+      rebuildChart();
+      writeURL();
+    });
+
+    if (chartView === 'compare') {
+      buildCompareControls();
+      compareControls.hidden = false;
+    }
+
     // ========== Chart ==========
 
+    const CRS_AXIS_TITLE = 'CRS Score (minimum to be invited)';
+    const INVITATIONS_AXIS_TITLE = 'Invitations issued per round';
+
     const ctx = document.getElementById('chart').getContext('2d');
     const chart = new Chart(ctx, {
       type: 'scatter',
@@ -836,10 +1351,11 @@ function main() {
           annotation: { annotations: {} },
           legend: { display: false },
           tooltip: {
+            filter: (item) => !item.dataset._isBand,
             callbacks: {
               title: (items) => {
                 const d = items[0].raw;
-                const dateStr = new Date(d.x).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
+                const dateStr = new Date(d.date || d.x).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' });
                 if (d.isProjection) return d.roundType.split('(')[0].trim() + ' — ' + dateStr;
                 return 'Round #' + d.roundNumber + ' — ' + dateStr;
               },
@@ -848,16 +1364,26 @@ function main() {
                 if (d.isProjection) {
                   const method = d.projMethod || 'projected';
                   const methodLabels = { linear: 'Linear', 'moving-avg': 'Moving Avg', polynomial: 'Polynomial' };
-                  return [
+                  const lines = [
                     (methodLabels[method] || method) + ' projection',
                     'Projected CRS: ' + d.y,
                   ];
+                  if (d.band) {
+                    [...PREDICTION_BANDS].reverse().forEach(b => {
+                      lines.push(b.level + '% range: ' + d.band[b.level][0] + '–' + d.band[b.level][1]);
+                    });
+                  }
+                  return lines;
                 }
-                return [
+                const crs = d.crs !== undefined ? d.crs : d.y;
+                const lines = [
                   d.roundType,
-                  'CRS Score: ' + d.y,
+                  'CRS Score: ' + crs,
                   'Invitations: ' + d.invitations.toLocaleString(),
                 ];
+                if (d.tieBreak) lines.push('Tie-break: profiles at ' + crs + ' submitted before ' + formatTieBreak(d.tieBreak));
+                if (d.poolAsOf) lines.push('Pool snapshot as of ' + d.poolAsOf);
+                return lines;
               },
             },
             backgroundColor: getThemeColors().tooltipBg,
@@ -879,7 +1405,7 @@ function main() {
           y: {
             grid: { color: getThemeColors().gridY },
             ticks: { color: getThemeColors().tick },
-            title: { display: true, text: 'CRS Score (minimum to be invited)', color: getThemeColors().axisTitle },
+            title: { display: true, text: chartView === 'invitations' ? INVITATIONS_AXIS_TITLE : CRS_AXIS_TITLE, color: getThemeColors().axisTitle },
           },
         },
       },
@@ -889,12 +1415,23 @@ function main() {
     chart.canvas.parentNode.style.height = '550px';
     chart.resize();
 
-    // Apply URL-restored hidden state to the initial render
-    if (hiddenCategories.size > 0) {
+    // Dates on the x axis, or days of the year in the compare view
+    function updateXAxis(target) {
+      const x = target.options.scales.x;
+      const compare = chartView === 'compare';
+      x.min = compare ? REF_YEAR + '-01-01' : undefined;
+      x.max = compare ? REF_YEAR + '-12-31' : undefined;
+      x.time.displayFormats.month = compare ? 'MMM' : 'MMM yyyy';
+      x.title.text = compare ? 'Day of year' : 'Date';
+    }
+
+    // Apply URL-restored hidden state, version markers and axis to the initial render
+    if (hiddenCategories.size > 0 || splitVersions || chartView === 'compare') {
       chart.data.datasets.forEach((ds, i) => {
-        const base = ds.label.replace(/ \\((?:linear|ma|polynomial|proj)\\)$/, '');
-        chart.getDatasetMeta(i).hidden = hiddenCategories.has(base);
+        chart.getDatasetMeta(i).hidden = hiddenCategories.has(ds._category);
       });
+      updateVersionBoundaries(chart);
+      updateXAxis(chart);
       chart.update('none');
     }
 
@@ -904,11 +1441,15 @@ function main() {
       const ds = buildDatasets();
       chart.data.datasets = ds;
       ds.forEach((d, i) => {
-        const base = d.label.replace(/ \\((?:linear|ma|polynomial|proj)\\)$/, '');
-        chart.getDatasetMeta(i).hidden = hiddenCategories.has(base);
+        chart.getDatasetMeta(i).hidden = hiddenCategories.has(d._category);
       });
+      chart.options.scales.y.title.text = chartView === 'invitations' ? INVITATIONS_AXIS_TITLE : CRS_AXIS_TITLE;
+      if (chartView === 'invitations') clearScoreLines();
+      updateVersionBoundaries(chart);
+      updateXAxis(chart);
       chart.update();
-      if (userScore > 0) buildScoreResults(userScore);
+      buildRoundsTable();
+      if (scoredProfiles().length) buildScoreResults();
     }
 
     function toggleDataset(origIdx, btn) {
@@ -917,6 +1458,7 @@ function main() {
       else { hiddenCategories.add(label); btn.classList.remove('active'); }
       allBtn.classList.toggle('active', hiddenCategories.size === 0);
       rebuildChart();
+      onCategoriesChanged();
       writeURL();
     }
 
@@ -932,12 +1474,26 @@ function main() {
         allBtn.classList.add('active');
       }
       rebuildChart();
+      onCategoriesChanged();
       writeURL();
     }
 
     // ========== Toolbar handlers ==========
 
     // Set initial active states from URL
+    document.querySelectorAll('#chartView button').forEach(btn => {
+      btn.classList.toggle('active', btn.dataset.view === chartView);
+      btn.addEventListener('click', () => {
+        chartView = btn.dataset.view;
+        document.querySelectorAll('#chartView button').forEach(b => b.classList.remove('active'));
+        btn.classList.add('active');
+        if (chartView === 'compare') buildCompareControls();
+        compareControls.hidden = chartView !== 'compare';
+        rebuildChart();
+        if (chartView !== 'invitations' && scoredProfiles().length) applyScores();
+        writeURL();
+      });
+    });
     document.querySelectorAll('#timeRange button').forEach(btn => {
       btn.classList.toggle('active', btn.dataset.range === timeRange);
     });
@@ -969,6 +1525,18 @@ function main() {
         btn.classList.add('active');
         if (projectionMode !== 'off') btn.classList.add('projection-on');
         rebuildChart();
+        updateAccuracy();
+        writeURL();
+      });
+    });
+
+    document.querySelectorAll('#versionMode button').forEach(btn => {
+      btn.classList.toggle('active', (btn.dataset.split === 'on') === splitVersions);
+      btn.addEventListener('click', () => {
+        splitVersions = btn.dataset.split === 'on';
+        document.querySelectorAll('#versionMode button').forEach(b => b.classList.remove('active'));
+        btn.classList.add('active');
+        rebuildChart();
         writeURL();
       });
     });
@@ -988,6 +1556,59 @@ function main() {
       });
     });
 
+    // ========== Projection accuracy ==========
+
+    const ACCURACY_METHODS = [
+      { id: 'linear', label: 'Linear' },
+      { id: 'moving-avg', label: 'Moving Avg' },
+      { id: 'poly', label: 'Polynomial' },
+    ];
+
+    function formatAccuracy(m) {
+      return m.mae.toFixed(1) + ' / ' + m.rmse.toFixed(1) + ' / ' + Math.round(m.hitRate * 100) + '%';
+    }
+
+    // Backtest results from the build: the projection toggle highlights its own column
+    function updateAccuracy() {
+      // The score cards' pool-aware projection follows the selected trend; with projections off, show Linear's
+      const poolMode = ACCURACY_METHODS.find(m => m.id === projectionMode) || ACCURACY_METHODS[0];
+      document.getElementById('accuracyNote').textContent =
+        'Each method replayed over past rounds: from every round after the first ' + BACKTEST.minTrain +
+        ' in a category, forecast the next ' + BACKTEST.horizon + ' cutoffs. Cells show mean absolute error / RMSE in CRS points' +
+        ' / share of forecasts within ' + BACKTEST.hitTolerance + ' points. Lower error is better; the best per row is green.' +
+        ' Pool-aware scores the projection on the score cards, with the ' + poolMode.label + ' trend: from the same origins,' +
+        ' when the cutoff would reach the score of each later round, as mean absolute error / RMSE in days / share within ' +
+        BACKTEST.hitToleranceDays + ' days. It counts only the forecasts made from the pool history.';
+
+      const rows = BACKTEST.categories.map(c => ({ name: c.name, methods: c.methods, poolAware: c.poolAware }))
+        .concat([{ name: 'All categories', methods: BACKTEST.overall, poolAware: BACKTEST.poolAwareOverall }]);
+      const head = '<tr><th>Category</th>' + ACCURACY_METHODS.map(m =>
+        '<th class="' + (m.id === projectionMode ? 'selected' : '') + '">' + m.label + '</th>').join('') +
+        '<th>Pool-aware (days)</th></tr>';
+      const body = rows.map(row => {
+        const maes = ACCURACY_METHODS.map(m => row.methods[m.id] ? row.methods[m.id].mae : Infinity);
+        const best = Math.min(...maes);
+        const pool = row.poolAware[poolMode.id];
+        return '<tr><td>' + row.name + '</td>' + ACCURACY_METHODS.map((m, i) => {
+          const stats = row.methods[m.id];
+          const cls = [m.id === projectionMode ? 'selected' : '', stats && maes[i] === best ? 'best' : ''].join(' ').trim();
+          const title = stats ? ' title="' + stats.forecasts + ' forecasts"' : '';
+          return '<td class="' + cls + '"' + title + '>' + (stats ? formatAccuracy(stats) : '&ndash;') + '</td>';
+        }).join('') +
+          '<td' + (pool ? ' title="' + pool.forecasts + ' forecasts"' : '') + '>' + (pool ? formatAccuracy(pool) : '&ndash;') + '</td></tr>';
+      }).join('');
+      document.getElementById('accuracyTable').innerHTML = '<thead>' + head + '</thead><tbody>' + body + '</tbody>';
+    }
+
+    // Projection buttons summarise their own track record
+    document.querySelectorAll('#projectionMode button').forEach(btn => {
+      const m = BACKTEST.overall[btn.dataset.proj];
+      if (m) btn.title = 'Backtest over the next ' + BACKTEST.horizon + ' rounds: off by ' + m.mae.toFixed(1) +
+        ' points on average, ' + Math.round(m.hitRate * 100) + '% within ' + BACKTEST.hitTolerance + ' points';
+    });
+
+    updateAccuracy();
+
     // ========== Stats ==========
 
     function updateStats() {
@@ -1002,14 +1623,23 @@ function main() {
       if (!allRounds.length) return;
       const latest = allRounds[allRounds.length - 1];
       const scores = allRounds.map(r => r.y);
-      [
+      const cards = [
         { label: 'Rounds Shown', value: allRounds.length },
         { label: 'Latest CRS Score', value: latest.y + ' (' + latest.roundType + ')' },
         { label: 'Lowest CRS', value: Math.min(...scores) },
         { label: 'Highest CRS', value: Math.max(...scores) },
         { label: 'Program Types', value: originalDatasets.length },
         { label: 'Date Range', value: allRounds[0].x + ' to ' + allRounds[allRounds.length - 1].x },
-      ].forEach(s => {
+      ];
+      // Candidates sitting exactly at the cutoff need the tie-break time
+      const latestTieBreak = [...allRounds].reverse().find(r => r.tieBreak);
+      if (latestTieBreak) {
+        cards.push({
+          label: 'Latest Tie-Break (Round #' + latestTieBreak.roundNumber + ')',
+          value: formatTieBreak(latestTieBreak.tieBreak),
+        });
+      }
+      cards.forEach(s => {
         const card = document.createElement('div');
         card.className = 'stat-card';
         card.innerHTML = '<h3>' + s.label + '</h3><div class="value">' + s.value + '</div>';
@@ -1019,64 +1649,552 @@ function main() {
 
     updateStats();
 
-    // ========== Score input + horizontal line + eligibility results ==========
+    // ========== Rounds table ==========
 
-    const scoreInput = document.getElementById('scoreInput');
-    const scoreResultsEl = document.getElementById('scoreResults');
+    const ROUNDS_PAGE_SIZE = 25;
+    const ROUNDS_TABLE_COLUMNS = [
+      { key: 'number', label: 'Round', value: r => r.roundNumber },
+      { key: 'date', label: 'Date', value: r => r.x, text: true },
+      { key: 'category', label: 'Category', value: r => r.categoryName, text: true },
+      { key: 'type', label: 'Round type', value: r => r.roundType, text: true },
+      { key: 'crs', label: 'CRS', value: r => r.y },
+      { key: 'invitations', label: 'Invitations', value: r => r.invitations },
+    ];
+    if (!ROUNDS_TABLE_COLUMNS.some(c => c.key === roundsState.sort)) roundsState.sort = 'date';
 
-    if (userScore > 0) {
-      scoreInput.value = userScore;
-      applyScore(userScore);
+    // Rounds of the visible categories in the selected time range, as the chart shows them
+    function visibleRounds() {
+      const cutoff = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
+        : 0;
+      return originalDatasets
+        .filter(ds => !hiddenCategories.has(ds.label))
+        .flatMap(ds => ds.data
+          .filter(d => new Date(d.x).getTime() >= cutoff)
+          .map(d => ({ ...d, category: ds.id, categoryName: ds.label, color: ds.borderColor })));
     }
 
-    scoreInput.addEventListener('input', () => {
-      const val = parseInt(scoreInput.value, 10);
-      userScore = (val >= 0 && val <= 1200) ? val : 0;
-      applyScore(userScore);
+    function filteredRounds(rounds) {
+      const q = roundsState.q.trim().toLowerCase();
+      const within = (v, [lo, hi]) => (lo === null || v >= lo) && (hi === null || v <= hi);
+      const col = ROUNDS_TABLE_COLUMNS.find(c => c.key === roundsState.sort);
+      const dir = roundsState.dir === 'asc' ? 1 : -1;
+      return rounds
+        .filter(r => (!q || r.roundType.toLowerCase().includes(q)) && within(r.y, roundsState.crs) && within(r.invitations, roundsState.inv))
+        .sort((a, b) => {
+          const va = col.value(a), vb = col.value(b);
+          const order = col.text ? String(va).localeCompare(String(vb)) : va - vb;
+          return dir * (order || a.x.localeCompare(b.x) || a.roundNumber - b.roundNumber);
+        });
+    }
+
+    // Point and tooltip on the chart for the round selected in the table
+    function highlightRound() {
+      let active = [];
+      if (roundsState.round !== null) {
+        chart.data.datasets.forEach((ds, i) => {
+          if (active.length || ds._isProjection || chart.getDatasetMeta(i).hidden) return;
+          const index = ds.data.findIndex(d => d.roundNumber === roundsState.round);
+          if (index !== -1) active = [{ datasetIndex: i, index }];
+        });
+      }
+      const el = active.length ? chart.getDatasetMeta(active[0].datasetIndex).data[active[0].index] : null;
+      chart.setActiveElements(active);
+      chart.tooltip.setActiveElements(active, el ? { x: el.x, y: el.y } : { x: 0, y: 0 });
+      chart.update('none');
+    }
+
+    function buildRoundsTable() {
+      const visible = visibleRounds();
+      const rows = filteredRounds(visible);
+      const pages = Math.max(1, Math.ceil(rows.length / ROUNDS_PAGE_SIZE));
+      roundsState.page = Math.min(roundsState.page, pages);
+
+      const table = document.getElementById('roundsTable');
+      table.innerHTML = '';
+      const head = table.createTHead().insertRow();
+      ROUNDS_TABLE_COLUMNS.forEach(c => {
+        const th = document.createElement('th');
+        if (c.text) th.className = 'text';
+        if (c.key === roundsState.sort) th.setAttribute('aria-sort', roundsState.dir === 'asc' ? 'ascending' : 'descending');
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.textContent = c.label;
+        btn.addEventListener('click', () => {
+          if (roundsState.sort === c.key) roundsState.dir = roundsState.dir === 'asc' ? 'desc' : 'asc';
+          else { roundsState.sort = c.key; roundsState.dir = c.text ? 'asc' : 'desc'; }
+          roundsState.page = 1;
+          buildRoundsTable();
+          writeURL();
+        });
+        th.appendChild(btn);
+        head.appendChild(th);
+      });
+
+      const body = table.createTBody();
+      const start = (roundsState.page - 1) * ROUNDS_PAGE_SIZE;
+      rows.slice(start, start + ROUNDS_PAGE_SIZE).forEach(r => {
+        const tr = body.insertRow();
+        if (r.roundNumber === roundsState.round) tr.className = 'selected';
+        tr.title = 'Show round #' + r.roundNumber + ' on the chart';
+        ROUNDS_TABLE_COLUMNS.forEach(c => {
+          const td = tr.insertCell();
+          if (c.text) td.className = 'text';
+          td.textContent = c.key === 'invitations' ? r.invitations.toLocaleString() : c.value(r);
+        });
+        tr.cells[2].style.borderLeft = '3px solid ' + r.color;
+        tr.addEventListener('click', () => {
+          roundsState.round = roundsState.round === r.roundNumber ? null : r.roundNumber;
+          buildRoundsTable();
+          writeURL();
+        });
+      });
+
+      document.getElementById('roundsCount').textContent = rows.length === visible.length
+        ? rows.length + ' rounds'
+        : rows.length + ' of ' + visible.length + ' rounds';
+
+      const pager = document.getElementById('roundsPager');
+      pager.innerHTML = '';
+      const pageButton = (label, page) => {
+        const btn = document.createElement('button');
+        btn.type = 'button';
+        btn.textContent = label;
+        btn.disabled = page < 1 || page > pages;
+        btn.addEventListener('click', () => {
+          roundsState.page = page;
+          buildRoundsTable();
+          writeURL();
+        });
+        return btn;
+      };
+      const status = document.createElement('span');
+      status.textContent = 'Page ' + roundsState.page + ' of ' + pages;
+      pager.append(pageButton('Previous', roundsState.page - 1), status, pageButton('Next', roundsState.page + 1));
+
+      highlightRound();
+    }
+
+    const roundsSearch = document.getElementById('roundsSearch');
+    roundsSearch.value = roundsState.q;
+    roundsSearch.addEventListener('input', () => {
+      roundsState.q = roundsSearch.value;
+      roundsState.page = 1;
+      buildRoundsTable();
       writeURL();
     });
+    [['crs', 'roundsCrsMin', 'roundsCrsMax'], ['inv', 'roundsInvMin', 'roundsInvMax']].forEach(([key, minId, maxId]) => {
+      const inputs = [minId, maxId].map(id => document.getElementById(id));
+      inputs.forEach((input, side) => {
+        if (roundsState[key][side] !== null) input.value = roundsState[key][side];
+        input.addEventListener('input', () => {
+          roundsState[key] = inputs.map(i => (i.value === '' ? null : Number(i.value)));
+          roundsState.page = 1;
+          buildRoundsTable();
+          writeURL();
+        });
+      });
+    });
 
-    function applyScore(score) {
-      // Update annotation line
-      if (score > 0) {
-        chart.options.plugins.annotation.annotations.scoreLine = {
-          type: 'line',
-          yMin: score,
-          yMax: score,
-          borderColor: '#f59e0b',
+    buildRoundsTable();
+
+    // ========== Invitation probability simulation ==========
+
+    const SIM_RUNS = 2000;
+    const SIM_HORIZON_DAYS = 365;
+    const SIM_LOOKBACK_DAYS = 2 * 365; // recent enough to reflect current draw policy
+    const SIM_MILESTONES = [
+      { months: 3, days: 91 },
+      { months: 6, days: 183 },
+      { months: 12, days: 365 },
+    ];
+
+    let lastSimulation = null;
+    let simChartRef = null;
+
+    // Seeded PRNG (mulberry32) so the same score always shows the same percentages
+    function seededRandom(seed) {
+      return function() {
+        seed = (seed + 0x6d2b79f5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+    }
+
+    function pick(values, rand) {
+      return values[Math.floor(rand() * values.length)];
+    }
+
+    // Everything the simulation resamples, taken from the last SIM_LOOKBACK_DAYS of rounds
+    function buildSimulationInputs(score) {
+      const latestDist = getLatestDistribution();
+      if (!latestDist) return null;
+
+      const rounds = originalDatasets
+        .flatMap(ds => ds.data.map(d => ({ id: ds.id, t: new Date(d.x).getTime(), cutoff: d.y, invitations: d.invitations })))
+        .sort((a, b) => a.t - b.t);
+      if (rounds.length < 2) return null;
+      const start = rounds[rounds.length - 1].t;
+      const since = start - SIM_LOOKBACK_DAYS * DAY_MS;
+      const recent = rounds.filter(r => r.t >= since);
+
+      // Cadence: days between consecutive draws of any category; mix: which category each draw was
+      const gaps = [];
+      for (let i = 1; i < recent.length; i++) gaps.push((recent[i].t - recent[i - 1].t) / DAY_MS);
+      if (!gaps.some(g => g > 0)) return null;
+      const mix = recent.map(r => r.id);
+
+      // Per category: each draw's size with the share of the pool above its cutoff that it
+      // invited (how much of the pool is eligible for that category). Kept as pairs because
+      // big draws go deeper into the pool.
+      const draws = {};
+      for (const r of recent) {
+        if (!(r.invitations > 0)) continue;
+        const dist = findClosestSnapshot(distributionSnapshots, r.t);
+        const above = dist ? countAboveScore(dist, r.cutoff) : 0;
+        if (above > 0) (draws[r.id] = draws[r.id] || []).push({ size: r.invitations, share: r.invitations / above });
+      }
+
+      // Net daily change in candidates above the score between pool snapshots. It already
+      // includes candidates removed by past draws, so simulated draws don't deplete the pool.
+      const snaps = distributionSnapshots.filter(s => new Date(s.date).getTime() >= since);
+      const growth = [];
+      for (let i = 1; i < snaps.length; i++) {
+        const days = (new Date(snaps[i].date).getTime() - new Date(snaps[i - 1].date).getTime()) / DAY_MS;
+        if (days > 0) growth.push((countAboveScore(snaps[i], score) - countAboveScore(snaps[i - 1], score)) / days);
+      }
+      if (!growth.length) growth.push(0);
+
+      return { start, above: countAboveScore(latestDist, score), gaps, mix, draws, growth };
+    }
+
+    // Monte Carlo estimate of when a candidate with this score first gets an ITA in each category.
+    // Every simulated future is a sequence of draws: resampled gap, category and draw, while the
+    // number of candidates above the score drifts by resampled pool growth. A draw of the user's
+    // category reaches them when its eligible candidates above the score fit within the draw.
+    function simulateInvitations(score, ids) {
+      const inputs = buildSimulationInputs(score);
+      if (!inputs) return null;
+
+      const simulated = ids.filter(id => inputs.draws[id]);
+      const firstDays = {};
+      simulated.forEach(id => { firstDays[id] = []; });
+      const rand = seededRandom(score);
+
+      for (let run = 0; run < SIM_RUNS; run++) {
+        const pending = new Set(simulated);
+        let day = 0;
+        let above = inputs.above;
+        while (pending.size > 0) {
+          const gap = pick(inputs.gaps, rand);
+          day += gap;
+          if (day > SIM_HORIZON_DAYS) break;
+          above = Math.max(0, above + pick(inputs.growth, rand) * gap);
+          const id = pick(inputs.mix, rand);
+          if (!pending.has(id)) continue;
+          const draw = pick(inputs.draws[id], rand);
+          if (above * draw.share <= draw.size) {
+            firstDays[id].push(day);
+            pending.delete(id);
+          }
+        }
+      }
+
+      // Cumulative probability by day: share of runs invited on or before it
+      const byCategory = {};
+      for (const id of simulated) {
+        const days = firstDays[id].sort((a, b) => a - b);
+        const probabilityBy = (limit) => {
+          let n = 0;
+          while (n < days.length && days[n] <= limit) n++;
+          return n / SIM_RUNS;
+        };
+        const curve = [];
+        for (let d = 0; d <= SIM_HORIZON_DAYS; d += 7) curve.push({ day: d, p: probabilityBy(d) });
+        byCategory[id] = { milestones: SIM_MILESTONES.map(m => probabilityBy(m.days)), curve };
+      }
+      return { start: inputs.start, byCategory };
+    }
+
+    function formatProbability(p) {
+      if (p > 0 && p < 0.01) return '<1%';
+      if (p > 0.99 && p < 1) return '>99%';
+      return Math.round(p * 100) + '%';
+    }
+
+    function buildSimChart() {
+      if (simChartRef) {
+        simChartRef.destroy();
+        simChartRef = null;
+      }
+      const section = document.getElementById('simSection');
+      const ids = lastSimulation ? Object.keys(lastSimulation.byCategory) : [];
+      section.style.display = ids.length ? '' : 'none';
+      if (!ids.length) return;
+
+      document.getElementById('simChartContainer').style.height = '360px';
+      const c = getThemeColors();
+      const datasets = originalDatasets
+        .filter(ds => lastSimulation.byCategory[ds.id])
+        .map(ds => ({
+          label: ds.label,
+          data: lastSimulation.byCategory[ds.id].curve.map(pt => ({
+            x: new Date(lastSimulation.start + pt.day * DAY_MS).toISOString().slice(0, 10),
+            y: Math.round(pt.p * 1000) / 10,
+          })),
+          borderColor: ds.borderColor,
+          backgroundColor: ds.borderColor + '33',
           borderWidth: 2,
-          borderDash: [8, 4],
+          pointRadius: 0,
+          pointHoverRadius: 4,
+          stepped: true,
+        }));
+
+      // Mark the 3/6/12 month milestones
+      const annotations = {};
+      SIM_MILESTONES.forEach(m => {
+        annotations['milestone_' + m.months] = {
+          type: 'line',
+          xMin: lastSimulation.start + m.days * DAY_MS,
+          xMax: lastSimulation.start + m.days * DAY_MS,
+          borderColor: c.gridY,
+          borderWidth: 1,
+          borderDash: [4, 4],
           label: {
             display: true,
-            content: 'Your score: ' + score,
+            content: m.months + ' mo',
             position: 'start',
-            backgroundColor: '#f59e0bcc',
-            color: '#0f172a',
-            font: { weight: 'bold', size: 12 },
-            padding: { top: 3, bottom: 3, left: 8, right: 8 },
-            borderRadius: 4,
+            backgroundColor: c.tooltipBg,
+            color: c.tick,
+            font: { size: 10 },
           },
         };
-      } else {
-        delete chart.options.plugins.annotation.annotations.scoreLine;
+      });
+
+      simChartRef = new Chart(document.getElementById('simChart').getContext('2d'), {
+        type: 'line',
+        data: { datasets },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: { mode: 'index', intersect: false },
+          plugins: {
+            legend: {
+              display: true,
+              position: 'bottom',
+              labels: { color: c.tick, font: { size: 10 }, boxWidth: 12, padding: 8 },
+            },
+            annotation: { annotations },
+            tooltip: {
+              callbacks: {
+                title: (items) => 'By ' + new Date(items[0].raw.x).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' }),
+                label: (item) => item.dataset.label + ': ' + item.raw.y + '%',
+              },
+              backgroundColor: c.tooltipBg,
+              titleColor: c.tooltipTitle,
+              bodyColor: c.tooltipBody,
+              borderColor: c.tooltipBorder,
+              borderWidth: 1,
+            },
+          },
+          scales: {
+            x: {
+              type: 'time',
+              time: { unit: 'month', displayFormats: { month: 'MMM yyyy' } },
+              grid: { color: c.gridX },
+              ticks: { color: c.tick, maxRotation: 45 },
+            },
+            y: {
+              min: 0,
+              max: 100,
+              grid: { color: c.gridY },
+              ticks: { color: c.tick, callback: (v) => v + '%' },
+              title: { display: true, text: 'Chance of an ITA by date', color: c.axisTitle },
+            },
+          },
+        },
+      });
+    }
+
+    // ========== Profiles + score lines + eligibility results ==========
+
+    const profilesEl = document.getElementById('profiles');
+    const addProfileBtn = document.getElementById('addProfile');
+    const scoreResultsEl = document.getElementById('scoreResults');
+
+    // Profiles that have a score, with their colours
+    function scoredProfiles() {
+      return profiles
+        .map((pr, i) => ({ ...pr, color: PROFILE_COLORS[i] }))
+        .filter(pr => pr.score > 0);
+    }
+
+    function renderProfiles() {
+      profilesEl.innerHTML = '';
+      profiles.forEach((profile, i) => {
+        const row = document.createElement('div');
+        row.className = 'profile';
+
+        const name = document.createElement('input');
+        name.type = 'text';
+        name.className = 'profile-name';
+        name.maxLength = 24;
+        name.value = profile.name;
+        name.setAttribute('aria-label', 'Profile name');
+        name.addEventListener('change', () => {
+          profile.name = name.value.trim() || defaultProfileName(i);
+          name.value = profile.name;
+          applyScores();
+          writeURL();
+        });
+
+        const score = document.createElement('input');
+        score.type = 'number';
+        score.min = '0';
+        score.max = '1200';
+        score.placeholder = '480';
+        if (i === 0) score.id = 'scoreInput';
+        else score.setAttribute('aria-label', 'CRS score');
+        score.style.borderColor = PROFILE_COLORS[i];
+        if (profile.score > 0) score.value = profile.score;
+        score.addEventListener('input', () => {
+          const val = parseInt(score.value, 10);
+          profile.score = (val >= 0 && val <= 1200) ? val : 0;
+          applyScores();
+          writeURL();
+        });
+
+        row.append(name, score);
+        if (profiles.length > 1) {
+          const remove = document.createElement('button');
+          remove.type = 'button';
+          remove.className = 'profile-button';
+          remove.textContent = '×';
+          remove.title = 'Remove ' + profile.name;
+          remove.addEventListener('click', () => {
+            profiles.splice(i, 1);
+            renderProfiles();
+            applyScores();
+            writeURL();
+          });
+          row.appendChild(remove);
+        }
+        profilesEl.appendChild(row);
+      });
+      addProfileBtn.disabled = profiles.length >= PROFILE_COLORS.length;
+    }
+
+    addProfileBtn.addEventListener('click', () => {
+      profiles.push({ name: defaultProfileName(profiles.length), score: 0 });
+      renderProfiles();
+      profilesEl.querySelector('.profile:last-child input[type="number"]').focus();
+      writeURL();
+    });
+
+    renderProfiles();
+    if (scoredProfiles().length) applyScores();
+
+    function clearScoreLines() {
+      const annotations = chart.options.plugins.annotation.annotations;
+      Object.keys(annotations).forEach(k => { if (k.startsWith('scoreLine_')) delete annotations[k]; });
+    }
+
+    function applyScores() {
+      // One line per profile (not in the invitations view, which has a different y axis)
+      clearScoreLines();
+      const scored = scoredProfiles();
+      if (chartView !== 'invitations') {
+        scored.forEach((pr, i) => {
+          chart.options.plugins.annotation.annotations['scoreLine_' + i] = {
+            type: 'line',
+            yMin: pr.score,
+            yMax: pr.score,
+            borderColor: pr.color,
+            borderWidth: 2,
+            borderDash: [8, 4],
+            label: {
+              display: true,
+              content: (scored.length === 1 && pr.name === DEFAULT_PROFILE_NAME ? 'Your score' : pr.name) + ': ' + pr.score,
+              // Spread the labels out so close scores don't cover each other
+              position: ['start', 'end', 'center'][i % 3],
+              backgroundColor: pr.color + 'cc',
+              color: '#0f172a',
+              font: { weight: 'bold', size: 12 },
+              padding: { top: 3, bottom: 3, left: 8, right: 8 },
+              borderRadius: 4,
+            },
+          };
+        });
       }
       chart.update('none');
 
       // Build eligibility results
-      buildScoreResults(score);
+      buildScoreResults();
 
       // Update pool position and distribution chart
-      onScoreChanged(score);
+      onScoreChanged();
+    }
+
+    // Eligibility of one score in a category's rounds, oldest first
+    function eligibilityResult(sorted, score) {
+      // Find historical rounds where the score was enough (CRS cutoff <= score)
+      const eligible = sorted.filter(d => d.y <= score);
+      const lastEligible = eligible.length > 0 ? eligible[eligible.length - 1] : null;
+
+      // Find if the most recent round qualifies
+      const mostRecent = sorted[sorted.length - 1];
+      const currentlyEligible = mostRecent.y <= score;
+
+      // Check projection if active
+      let projectedRange = null;
+      if (projectionMode !== 'off' && !currentlyEligible) {
+        projectedRange = getProjectedCrossing(sorted, score);
+      }
+
+      const result = document.createElement('div');
+      result.className = 'result-text';
+
+      if (currentlyEligible) {
+        result.classList.add('eligible');
+        const count = eligible.length;
+        result.textContent = 'Eligible now (' + count + ' past round' + (count !== 1 ? 's' : '') + ')';
+      } else if (projectedRange) {
+        result.classList.add('projected');
+        result.textContent = 'Projected: ' + formatCrossingRange(projectedRange);
+        result.title = '80% prediction interval; central estimate ' +
+          new Date(projectedRange.center).toLocaleDateString('en-CA', { year: 'numeric', month: 'short' }) +
+          (projectedRange.poolAware ? '. Pool-aware projection (accounts for candidate density at each score range)' : '');
+      } else if (lastEligible) {
+        result.classList.add('projected');
+        const d = new Date(lastEligible.x);
+        result.textContent = 'Last eligible: ' + d.toLocaleDateString('en-CA', { year: 'numeric', month: 'short' });
+      } else {
+        result.classList.add('unlikely');
+        result.textContent = 'Score too low for this category';
+      }
+      return result;
     }
 
-    function buildScoreResults(score) {
+    function buildScoreResults() {
       scoreResultsEl.innerHTML = '';
-      if (!score || score <= 0) return;
+      const scored = scoredProfiles();
+      if (!scored.length) {
+        lastSimulation = null;
+        buildSimChart();
+        return;
+      }
 
       const cutoff = timeRange === '3y'
         ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
         : 0;
 
+      // The probability chart follows the first profile
+      const visibleIds = originalDatasets.filter(ds => !hiddenCategories.has(ds.label)).map(ds => ds.id);
+      const simulations = scored.map(pr => simulateInvitations(pr.score, visibleIds));
+      lastSimulation = simulations[0];
+      buildSimChart();
+
       originalDatasets.forEach(ds => {
         if (hiddenCategories.has(ds.label)) return;
 
@@ -1088,20 +2206,6 @@ function main() {
 
         const sorted = [...filtered].sort((a, b) => new Date(a.x).getTime() - new Date(b.x).getTime());
 
-        // Find historical rounds where user's score was enough (CRS cutoff <= score)
-        const eligible = sorted.filter(d => d.y <= score);
-        const lastEligible = eligible.length > 0 ? eligible[eligible.length - 1] : null;
-
-        // Find if the most recent round qualifies
-        const mostRecent = sorted[sorted.length - 1];
-        const currentlyEligible = mostRecent.y <= score;
-
-        // Check projection if active
-        let projectedDate = null;
-        if (projectionMode !== 'off' && !currentlyEligible) {
-          projectedDate = getProjectedCrossing(sorted, score, ds.label);
-        }
-
         const card = document.createElement('div');
         card.className = 'score-result-card';
         card.style.borderLeftColor = ds.borderColor;
@@ -1111,227 +2215,275 @@ function main() {
         catName.textContent = ds.label;
         card.appendChild(catName);
 
-        const result = document.createElement('div');
-        result.className = 'result-text';
-
-        if (currentlyEligible) {
-          result.classList.add('eligible');
-          const count = eligible.length;
-          result.textContent = 'Eligible now (' + count + ' past round' + (count !== 1 ? 's' : '') + ')';
-        } else if (projectedDate) {
-          result.classList.add('projected');
-          const isPoolAware = projectedDate.endsWith('*');
-          result.textContent = 'Projected: ' + projectedDate.replace(' *', '');
-          if (isPoolAware) result.title = 'Pool-aware projection (accounts for candidate density at each score range)';
-        } else if (lastEligible) {
-          result.classList.add('projected');
-          const d = new Date(lastEligible.x);
-          result.textContent = 'Last eligible: ' + d.toLocaleDateString('en-CA', { year: 'numeric', month: 'short' });
-        } else {
-          result.classList.add('unlikely');
-          result.textContent = 'Score too low for this category';
-        }
-
-        card.appendChild(result);
+        // One column per profile
+        const columns = document.createElement('div');
+        columns.className = 'result-columns';
+        scored.forEach((pr, i) => {
+          const column = document.createElement('div');
+          if (scored.length > 1) {
+            const name = document.createElement('div');
+            name.className = 'result-profile';
+            name.style.color = pr.color;
+            name.textContent = pr.name + ' · ' + pr.score;
+            column.appendChild(name);
+          }
+          column.appendChild(eligibilityResult(sorted, pr.score));
+
+          const sim = simulations[i];
+          const odds = sim && sim.byCategory[ds.id];
+          if (odds) {
+            const oddsEl = document.createElement('div');
+            oddsEl.className = 'result-odds';
+            oddsEl.textContent = SIM_MILESTONES
+              .map((m, j) => m.months + ' mo: ' + formatProbability(odds.milestones[j]))
+              .join(' · ');
+            oddsEl.title = 'Chance of an invitation within ' + SIM_MILESTONES.map(m => m.months).join(', ') +
+              ' months of ' + new Date(sim.start).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' }) +
+              ', from ' + SIM_RUNS.toLocaleString() + ' simulated futures';
+            column.appendChild(oddsEl);
+          }
+          columns.appendChild(column);
+        });
+        card.appendChild(columns);
         scoreResultsEl.appendChild(card);
       });
     }
 
-    // ========== Pool-aware projection helpers ==========
+    // ========== CRS calculator ==========
 
-    // Given a CRS cutoff score, count candidates at or above it using a distribution snapshot
-    function countAboveScore(dist, cutoffScore) {
-      // Score range boundaries (lower bound of each range, high to low)
-      const ranges = [
-        { key: '601-1200', lo: 601 },
-        { key: '501-600', lo: 501 },
-        { key: '491-500', lo: 491 },
-        { key: '481-490', lo: 481 },
-        { key: '471-480', lo: 471 },
-        { key: '461-470', lo: 461 },
-        { key: '451-460', lo: 451 },
-        { key: '441-450', lo: 441 },
-        { key: '431-440', lo: 431 },
-        { key: '421-430', lo: 421 },
-        { key: '411-420', lo: 411 },
-        { key: '401-410', lo: 401 },
-        { key: '351-400', lo: 351 },
-        { key: '301-350', lo: 301 },
-        { key: '0-300', lo: 0 },
-      ];
-      let total = 0;
-      for (const r of ranges) {
-        const count = dist.ranges[r.key] || 0;
-        if (cutoffScore <= r.lo) {
-          // Entire range is above the cutoff
-          total += count;
-        } else {
-          // Cutoff falls within this range — estimate proportionally
-          // Range spans r.lo to r.hi (derive hi from next range's lo - 1, or 1200)
-          const hi = r.key === '601-1200' ? 1200 : parseInt(r.key.split('-')[1]);
-          const span = hi - r.lo + 1;
-          if (cutoffScore <= hi) {
-            const above = hi - cutoffScore + 1;
-            total += Math.round(count * (above / span));
-          }
-          // If cutoff > hi, none from this range count
-          break; // Lower ranges are all below cutoff
-        }
-      }
-      return total;
+    // Comprehensive Ranking System grid as published by IRCC.
+    // Two-column tables are [with spouse, without spouse].
+    const CRS_AGE = {
+      18: [90, 99], 19: [95, 105], 20: [100, 110], 30: [95, 105], 31: [90, 99],
+      32: [85, 94], 33: [80, 88], 34: [75, 83], 35: [70, 77], 36: [65, 72],
+      37: [60, 66], 38: [55, 61], 39: [50, 55], 40: [45, 50], 41: [35, 39],
+      42: [25, 28], 43: [15, 17], 44: [5, 6],
+    };
+    const CRS_EDUCATION = [[0, 0], [28, 30], [84, 90], [91, 98], [112, 120], [119, 128], [126, 135], [140, 150]];
+    const CRS_CANADIAN_WORK = [[0, 0], [35, 40], [46, 53], [56, 64], [63, 72], [70, 80]];
+    const CRS_SPOUSE_EDUCATION = [0, 2, 6, 7, 8, 9, 10, 10];
+    const CRS_SPOUSE_CANADIAN_WORK = [0, 5, 7, 8, 9, 10];
+    const CRS_CANADIAN_STUDY = [0, 15, 30];
+
+    function firstLanguagePoints(clb, withSpouse) {
+      const col = withSpouse ? 0 : 1;
+      if (clb >= 10) return [32, 34][col];
+      if (clb === 9) return [29, 31][col];
+      if (clb === 8) return [22, 23][col];
+      if (clb === 7) return [16, 17][col];
+      if (clb === 6) return [8, 9][col];
+      if (clb >= 4) return 6;
+      return 0;
     }
 
-    // Find the distribution snapshot closest to a given date
-    function findClosestDist(dateMs) {
-      if (!distributionSnapshots.length) return null;
-      let best = null;
-      let bestDiff = Infinity;
-      for (const snap of distributionSnapshots) {
-        const diff = Math.abs(new Date(snap.date).getTime() - dateMs);
-        if (diff < bestDiff) { bestDiff = diff; best = snap; }
-      }
-      // Only use if within 30 days
-      if (bestDiff > 30 * 24 * 60 * 60 * 1000) return null;
-      return best;
+    function secondLanguagePoints(clb) {
+      if (clb >= 9) return 6;
+      if (clb >= 7) return 3;
+      if (clb >= 5) return 1;
+      return 0;
     }
 
-    function getProjectedCrossing(sorted, score, label) {
-      const pts = sorted.map(d => ({ x: new Date(d.x).getTime(), y: d.y }));
+    function spouseLanguagePoints(clb) {
+      if (clb >= 9) return 5;
+      if (clb >= 7) return 3;
+      if (clb >= 5) return 1;
+      return 0;
+    }
 
-      // Try pool-aware projection first
-      if (distributionSnapshots.length >= 3) {
-        const poolResult = getPoolAwareProjection(sorted, score, label);
-        if (poolResult) return poolResult;
-      }
+    // Skill transferability combinations: 13 when both factors are at the lower tier,
+    // 25 when one is at the upper tier, 50 when both are
+    function transferPoints(tierA, tierB) {
+      if (!tierA || !tierB) return 0;
+      if (tierA === 2 && tierB === 2) return 50;
+      if (tierA === 2 || tierB === 2) return 25;
+      return 13;
+    }
 
-      // Fall back to trend-based projection
-      let regFn = linearRegression;
-      if (projectionMode === 'poly') regFn = polyRegression;
-
-      if (projectionMode === 'moving-avg') {
-        // For moving avg, use tail slope
-        if (sorted.length < MOVING_AVG_WINDOW) return null;
-        const smoothed = [];
-        for (let i = MOVING_AVG_WINDOW - 1; i < sorted.length; i++) {
-          let sum = 0;
-          for (let j = i - MOVING_AVG_WINDOW + 1; j <= i; j++) sum += sorted[j].y;
-          smoothed.push({ x: new Date(sorted[i].x).getTime(), y: sum / MOVING_AVG_WINDOW });
-        }
-        const tail = smoothed.slice(-3);
-        regFn = () => linearRegression(tail);
+    const LANG_ABILITIES = ['r', 'w', 'l', 's'];
+
+    function calculateCRS(p) {
+      const withSpouse = p.spouse === 1;
+      const col = withSpouse ? 0 : 1;
+      const l1 = LANG_ABILITIES.map(a => p['l1' + a]);
+      const l2 = LANG_ABILITIES.map(a => p['l2' + a]);
+
+      // A. Core / human capital
+      const agePts = p.age >= 18 && p.age <= 44 ? (CRS_AGE[p.age] || CRS_AGE[20])[col] : 0;
+      const eduPts = CRS_EDUCATION[p.edu][col];
+      const l1Pts = l1.reduce((s, clb) => s + firstLanguagePoints(clb, withSpouse), 0);
+      const l2Pts = Math.min(withSpouse ? 22 : 24, l2.reduce((s, clb) => s + secondLanguagePoints(clb), 0));
+      const cwePts = CRS_CANADIAN_WORK[p.cwe][col];
+      const core = agePts + eduPts + l1Pts + l2Pts + cwePts;
+
+      // B. Spouse or common-law partner factors
+      let spouse = 0;
+      if (withSpouse) {
+        const sl = LANG_ABILITIES.map(a => p['sl' + a]);
+        spouse = CRS_SPOUSE_EDUCATION[p.sedu]
+          + Math.min(20, sl.reduce((s, clb) => s + spouseLanguagePoints(clb), 0))
+          + CRS_SPOUSE_CANADIAN_WORK[p.scwe];
       }
 
-      const reg = regFn(pts);
-      if (!reg) return null;
+      // C. Skill transferability (first official language only)
+      const minL1 = Math.min(...l1);
+      const langTier = minL1 >= 9 ? 2 : minL1 >= 7 ? 1 : 0;
+      const eduTier = p.edu >= 5 ? 2 : p.edu >= 2 ? 1 : 0;
+      const cweTier = p.cwe >= 2 ? 2 : p.cwe >= 1 ? 1 : 0;
+      const fweTier = p.fwe >= 3 ? 2 : p.fwe >= 1 ? 1 : 0;
+      const eduTransfer = Math.min(50, transferPoints(langTier, eduTier) + transferPoints(cweTier, eduTier));
+      const fweTransfer = Math.min(50, transferPoints(langTier, fweTier) + transferPoints(cweTier, fweTier));
+      const certTransfer = p.cert ? (minL1 >= 7 ? 50 : minL1 >= 5 ? 25 : 0) : 0;
+      const transfer = Math.min(100, eduTransfer + fweTransfer + certTransfer);
+
+      // D. Additional points
+      const french = p.fl === 1 ? l1 : l2;
+      const english = p.fl === 1 ? l2 : l1;
+      let frenchPts = 0;
+      if (french.every(clb => clb >= 7)) frenchPts = english.every(clb => clb >= 5) ? 50 : 25;
+      const additional = Math.min(600,
+        (p.pnp ? 600 : 0) + (p.sib ? 15 : 0) + frenchPts + CRS_CANADIAN_STUDY[p.study]);
+
+      return { core, spouse, transfer, additional, total: core + spouse + transfer + additional };
+    }
 
-      // Search forward up to 3 years for crossing point
-      const lastT = pts[pts.length - 1].x;
-      const maxT = lastT + 3 * 365.25 * 24 * 60 * 60 * 1000;
-      const step = 7 * 24 * 60 * 60 * 1000; // weekly
+    const CLB_OPTIONS = [[0, 'Below CLB 4'], [4, 'CLB 4'], [5, 'CLB 5'], [6, 'CLB 6'], [7, 'CLB 7'], [8, 'CLB 8'], [9, 'CLB 9'], [10, 'CLB 10+']];
+    const EDU_OPTIONS = [
+      [0, 'Less than secondary school'], [1, 'Secondary diploma'], [2, 'One-year post-secondary'],
+      [3, 'Two-year post-secondary'], [4, "Bachelor's or 3+ year program"], [5, 'Two or more credentials (one 3+ years)'],
+      [6, "Master's or professional degree"], [7, 'Doctoral degree (PhD)'],
+    ];
+    const YEARS_OPTIONS = [[0, 'None or less than a year'], [1, '1 year'], [2, '2 years'], [3, '3 years'], [4, '4 years'], [5, '5 years or more']];
+    const YES_NO = [[0, 'No'], [1, 'Yes']];
+    const abilityNames = { r: 'Reading', w: 'Writing', l: 'Listening', s: 'Speaking' };
 
-      for (let t = lastT; t <= maxT; t += step) {
-        const projected = reg.eval(t);
-        if (projected <= score) {
-          const d = new Date(t);
-          return d.toLocaleDateString('en-CA', { year: 'numeric', month: 'short' });
-        }
-      }
-      return null;
-    }
-
-    // Pool-aware projection: uses competition ratio (candidates above cutoff / invitations)
-    // instead of raw CRS score trend. This accounts for the non-linear density of
-    // candidates at different score ranges — cutoffs stall at dense bands.
-    function getPoolAwareProjection(sorted, userScore, label) {
-      // Build competition ratio time series for this category
-      // For each historical round, compute: candidatesAboveCutoff / invitationsIssued
-      const ratioSeries = [];
-      for (const d of sorted) {
-        if (!d.invitations || d.invitations <= 0) continue;
-        const dateMs = new Date(d.x).getTime();
-        const dist = findClosestDist(dateMs);
-        if (!dist) continue;
-        const above = countAboveScore(dist, d.y);
-        ratioSeries.push({
-          x: dateMs,
-          ratio: above / d.invitations,
-          cutoff: d.y,
-          invitations: d.invitations,
-        });
-      }
+    function languageFields(prefix, title, group) {
+      return LANG_ABILITIES.map(a => ({ key: prefix + a, label: title + ' ' + abilityNames[a].toLowerCase(), group, options: CLB_OPTIONS, def: 0 }));
+    }
 
-      if (ratioSeries.length < 3) return null;
+    const CALC_FIELDS = [
+      { key: 'spouse', label: 'Spouse or partner coming with you', group: 'Principal applicant', options: YES_NO, def: 0 },
+      { key: 'age', label: 'Age', group: 'Principal applicant', def: 20, options: [
+        [17, '17 or under'], [18, '18'], [19, '19'], [20, '20–29'],
+        ...Array.from({ length: 15 }, (_, i) => [30 + i, String(30 + i)]), [45, '45 or older'],
+      ] },
+      { key: 'edu', label: 'Education', group: 'Principal applicant', options: EDU_OPTIONS, def: 4 },
+      { key: 'cwe', label: 'Canadian work experience', group: 'Principal applicant', options: YEARS_OPTIONS, def: 0 },
+      { key: 'fwe', label: 'Foreign work experience', group: 'Principal applicant', def: 0,
+        options: [[0, 'None or less than a year'], [1, '1 year'], [2, '2 years'], [3, '3 years or more']] },
+      { key: 'cert', label: 'Certificate of qualification (trade)', group: 'Principal applicant', options: YES_NO, def: 0 },
+      { key: 'fl', label: 'First official language', group: 'Official languages', options: [[0, 'English'], [1, 'French']], def: 0 },
+      ...languageFields('l1', 'First language', 'Official languages').map(f => ({ ...f, def: 9 })),
+      ...languageFields('l2', 'Second language', 'Official languages'),
+      { key: 'sedu', label: 'Spouse education', group: 'Spouse or partner', options: EDU_OPTIONS, def: 0 },
+      { key: 'scwe', label: 'Spouse Canadian work experience', group: 'Spouse or partner', options: YEARS_OPTIONS, def: 0 },
+      ...languageFields('sl', 'Spouse first language', 'Spouse or partner'),
+      { key: 'pnp', label: 'Provincial or territorial nomination', group: 'Additional points', options: YES_NO, def: 0 },
+      { key: 'sib', label: 'Sibling in Canada (citizen or PR)', group: 'Additional points', options: YES_NO, def: 0 },
+      { key: 'study', label: 'Post-secondary education in Canada', group: 'Additional points', def: 0,
+        options: [[0, 'None'], [1, 'One or two years'], [2, 'Three years or longer']] },
+    ];
 
-      // Current: how competitive is it for the user's score?
-      const latestDist = getLatestDistribution();
-      if (!latestDist) return null;
-      const userAbove = countAboveScore(latestDist, userScore);
-
-      // Get typical invitation size for this category (median of recent rounds)
-      const recentInvitations = sorted.slice(-10)
-        .map(d => d.invitations)
-        .filter(n => n > 0)
-        .sort((a, b) => a - b);
-      if (!recentInvitations.length) return null;
-      const medianInvitations = recentInvitations[Math.floor(recentInvitations.length / 2)];
-
-      const userRatio = userAbove / medianInvitations;
-
-      // If ratio is already <= 1, user would likely be invited now
-      if (userRatio <= 1.0) return null;
-
-      // Project how the competition ratio for the user's score has been changing
-      // Use the pool snapshots to compute the user's ratio at each snapshot
-      const userRatioSeries = [];
-      for (const snap of distributionSnapshots) {
-        const dateMs = new Date(snap.date).getTime();
-        const above = countAboveScore(snap, userScore);
-        userRatioSeries.push({ x: dateMs, y: above / medianInvitations });
-      }
+    // URL format: comma-separated key:value pairs, only non-default values
+    function parseCalc(str) {
+      const state = {};
+      CALC_FIELDS.forEach(f => { state[f.key] = f.def; });
+      str.split(',').filter(Boolean).forEach(pair => {
+        const [key, val] = pair.split(':');
+        const field = CALC_FIELDS.find(f => f.key === key);
+        const num = parseInt(val, 10);
+        if (field && field.options.some(o => o[0] === num)) state[key] = num;
+      });
+      return state;
+    }
 
-      if (userRatioSeries.length < 2) return null;
-
-      // Fit a regression to the user's ratio trend
-      let regFn = linearRegression;
-      if (projectionMode === 'poly') regFn = polyRegression;
-      if (projectionMode === 'moving-avg') {
-        if (userRatioSeries.length >= MOVING_AVG_WINDOW) {
-          const smoothed = [];
-          for (let i = MOVING_AVG_WINDOW - 1; i < userRatioSeries.length; i++) {
-            let sum = 0;
-            for (let j = i - MOVING_AVG_WINDOW + 1; j <= i; j++) sum += userRatioSeries[j].y;
-            smoothed.push({ x: userRatioSeries[i].x, y: sum / MOVING_AVG_WINDOW });
-          }
-          const tail = smoothed.slice(-3);
-          regFn = () => linearRegression(tail);
-        }
+    function serializeCalc() {
+      return CALC_FIELDS
+        .filter(f => calcState[f.key] !== f.def)
+        .map(f => f.key + ':' + calcState[f.key])
+        .join(',');
+    }
+
+    const calcState = parseCalc(initState.calc);
+    const calcPanel = document.getElementById('calcPanel');
+    const calcFieldsEl = document.getElementById('calcFields');
+    const calcBreakdownEl = document.getElementById('calcBreakdown');
+    const calcGroups = {};
+
+    CALC_FIELDS.forEach(f => {
+      if (!calcGroups[f.group]) {
+        const group = document.createElement('div');
+        group.className = 'calc-group';
+        group.innerHTML = '<h4>' + f.group + '</h4><div class="calc-fields"></div>';
+        calcFieldsEl.appendChild(group);
+        calcGroups[f.group] = group;
       }
+      const label = document.createElement('label');
+      label.textContent = f.label;
+      const select = document.createElement('select');
+      f.options.forEach(([value, text]) => {
+        const opt = document.createElement('option');
+        opt.value = String(value);
+        opt.textContent = text;
+        select.appendChild(opt);
+      });
+      select.value = String(calcState[f.key]);
+      select.addEventListener('change', () => {
+        calcState[f.key] = parseInt(select.value, 10);
+        calcActive = true;
+        profiles[0].score = updateCalculator();
+        document.getElementById('scoreInput').value = profiles[0].score;
+        applyScores();
+        writeURL();
+      });
+      label.appendChild(select);
+      calcGroups[f.group].querySelector('.calc-fields').appendChild(label);
+    });
 
-      const reg = regFn(userRatioSeries);
-      if (!reg) return null;
+    function updateCalculator() {
+      const r = calculateCRS(calcState);
+      calcGroups['Spouse or partner'].style.display = calcState.spouse === 1 ? '' : 'none';
+      calcBreakdownEl.innerHTML = [
+        ['Core / human capital', r.core],
+        ['Spouse factors', r.spouse],
+        ['Skill transferability', r.transfer],
+        ['Additional points', r.additional],
+        ['Total CRS', r.total],
+      ].map(([label, val]) =>
+        '<div class="pool-chip"><div class="chip-label">' + label + '</div><div class="chip-val">' + val + '</div></div>'
+      ).join('');
+      return r.total;
+    }
 
-      // Search forward for when the ratio drops to <= 1.0 (favorable)
-      const lastT = userRatioSeries[userRatioSeries.length - 1].x;
-      const maxT = lastT + 3 * 365.25 * 24 * 60 * 60 * 1000;
-      const step = 7 * 24 * 60 * 60 * 1000;
+    const calcScore = updateCalculator();
+    if (calcActive) {
+      calcPanel.open = true;
+      profiles[0].score = calcScore;
+      document.getElementById('scoreInput').value = calcScore;
+      applyScores();
+    }
 
-      for (let t = lastT; t <= maxT; t += step) {
-        const projected = reg.eval(t);
-        if (projected <= 1.0) {
-          const d = new Date(t);
-          return d.toLocaleDateString('en-CA', { year: 'numeric', month: 'short' }) + ' *';
-        }
-      }
-      return null;
+    // ========== Pool-aware projection helpers ==========
+
+    // "Mar 2027", "between Mar and Aug 2027", "between Dec 2026 and Feb 2027" or "Mar 2027 or later"
+    function formatCrossingRange(range) {
+      const month = (t, withYear) => new Date(t).toLocaleDateString('en-CA', withYear ? { year: 'numeric', month: 'short' } : { month: 'short' });
+      if (range.end === null) return month(range.start, true) + ' or later';
+      const start = month(range.start, true);
+      const end = month(range.end, true);
+      if (start === end) return start;
+      const sameYear = new Date(range.start).getFullYear() === new Date(range.end).getFullYear();
+      return 'between ' + month(range.start, !sameYear) + ' and ' + end;
+    }
+
+    // Projected date range for a category's cutoff to reach the score (see Analytics.projectedCrossing)
+    function getProjectedCrossing(sorted, score) {
+      const rounds = sorted.map(d => ({ x: new Date(d.x).getTime(), y: d.y, invitations: d.invitations }));
+      return projectedCrossing(rounds, score, projectionMode, distributionSnapshots);
     }
 
     // ========== Distribution Chart ==========
 
-    const distRangeLabels = [
-      '601-1200', '501-600', '491-500', '481-490', '471-480',
-      '461-470', '451-460', '441-450', '431-440', '421-430',
-      '411-420', '401-410', '351-400', '301-350', '0-300'
-    ];
+    const distRangeLabels = SCORE_RANGES.map(r => r.label);
 
     const distColors = [
       '#7c3aed', '#6366f1', '#3b82f6', '#0ea5e9', '#06b6d4',
@@ -1367,11 +2519,12 @@ function main() {
 
       if (!filtered.length) return;
 
-      // Filter out ranges below user's score when a score is set
+      // Filter out ranges below the lowest profile score when scores are set
       let histLabels = distRangeLabels;
       let histColors = distColors;
-      if (userScore > 0) {
-        const cutIdx = getScoreRangeIndex(userScore);
+      const scored = scoredProfiles();
+      if (scored.length) {
+        const cutIdx = scoreRangeIndex(Math.min(...scored.map(pr => pr.score)));
         histLabels = distRangeLabels.slice(0, cutIdx + 1);
         histColors = distColors.slice(0, cutIdx + 1);
       }
@@ -1456,34 +2609,16 @@ function main() {
       });
     }
 
-    function getScoreRangeIndex(score) {
-      // Returns the y-axis index for the bar chart where the user's score falls
-      if (score >= 601) return 0;
-      if (score >= 501) return 1;
-      if (score >= 491) return 2;
-      if (score >= 481) return 3;
-      if (score >= 471) return 4;
-      if (score >= 461) return 5;
-      if (score >= 451) return 6;
-      if (score >= 441) return 7;
-      if (score >= 431) return 8;
-      if (score >= 421) return 9;
-      if (score >= 411) return 10;
-      if (score >= 401) return 11;
-      if (score >= 351) return 12;
-      if (score >= 301) return 13;
-      return 14;
-    }
-
     function getScoreRangeLabel(score) {
-      const idx = getScoreRangeIndex(score);
+      const idx = scoreRangeIndex(score);
       return distRangeLabels[idx];
     }
 
-    // Pool position info when user enters score
-    function updatePoolPosition(score) {
+    // Pool position chips for each profile with a score
+    function updatePoolPosition() {
       const el = document.getElementById('poolPosition');
-      if (!score || score <= 0 || !distributionSnapshots.length) {
+      const scored = scoredProfiles();
+      if (!scored.length || !distributionSnapshots.length) {
         el.style.display = 'none';
         return;
       }
@@ -1491,70 +2626,594 @@ function main() {
       const latest = getLatestDistribution();
       if (!latest) { el.style.display = 'none'; return; }
 
-      // Count people at or above user's score
-      const rangeOrder = distRangeLabels;
-      const userIdx = getScoreRangeIndex(score);
-      let above = 0;
-      for (let i = 0; i < userIdx; i++) {
-        above += latest.ranges[rangeOrder[i]] || 0;
-      }
-      // For the user's own range, estimate roughly half are above
-      const inRange = latest.ranges[rangeOrder[userIdx]] || 0;
-      above += Math.round(inRange * 0.5);
+      // Competition is measured against the median of the last 10 draws of any category
+      const recentInvitations = originalDatasets.flatMap(ds => ds.data)
+        .filter(d => d.invitations > 0)
+        .sort((a, b) => new Date(a.x).getTime() - new Date(b.x).getTime())
+        .map(d => d.invitations);
+
+      el.style.display = 'contents';
+      el.innerHTML = '';
+      scored.forEach(pr => {
+        const group = document.createElement('div');
+        group.className = 'pool-profile';
+        if (scored.length > 1) {
+          const name = document.createElement('div');
+          name.className = 'pool-profile-name';
+          name.style.color = pr.color;
+          name.textContent = pr.name;
+          group.appendChild(name);
+        }
+        group.insertAdjacentHTML('beforeend', poolChips(latest, pr.score, recentInvitations));
+        group.querySelectorAll('.pool-chip').forEach(chip => { chip.style.borderLeftColor = pr.color; });
+        el.appendChild(group);
+      });
+    }
 
-      const total = latest.total;
-      const percentile = total > 0 ? ((1 - above / total) * 100).toFixed(1) : '0';
-      const topPct = total > 0 ? ((above / total) * 100).toFixed(1) : '0';
+    function poolChips(latest, score, recentInvitations) {
+      const pos = Analytics.poolPosition(latest, score, recentInvitations);
+      const total = pos.total;
+      const medInv = pos.medianInvitations;
+      const pct = n => (total > 0 ? (n / total) * 100 : 0).toFixed(1);
+      const topPct = pct(pos.above.estimate);
 
       let colorClass = 'good';
       if (parseFloat(topPct) > 50) colorClass = 'bad';
       else if (parseFloat(topPct) > 25) colorClass = 'warn';
 
-      // Competition ratio: candidates above you vs typical invitation size
-      // Use median of last 10 General rounds as reference invitation size
-      const allRoundsFlat = originalDatasets.flatMap(ds => ds.data)
-        .filter(d => d.invitations > 0)
-        .sort((a, b) => new Date(a.x).getTime() - new Date(b.x).getTime());
-      const recentInv = allRoundsFlat.slice(-10).map(d => d.invitations).sort((a, b) => a - b);
-      const medInv = recentInv.length > 0 ? recentInv[Math.floor(recentInv.length / 2)] : 0;
-
-      // Use pool-aware count (with proportional estimation within ranges)
-      const abovePool = countAboveScore(latest, score);
-      const compRatio = medInv > 0 ? (abovePool / medInv) : 0;
+      const compRatio = pos.competitionRatio;
       const compStr = compRatio.toFixed(1) + ':1';
       let compClass = 'good';
       if (compRatio > 5) compClass = 'bad';
       else if (compRatio > 2) compClass = 'warn';
 
-      el.style.display = 'contents';
-      el.innerHTML =
-        '<div class="pool-chip" title="Candidates with CRS scores above yours in the pool"><div class="chip-label">Above you</div><div class="chip-val ' + colorClass + '">' + abovePool.toLocaleString() + '</div></div>' +
-        '<div class="pool-chip" title="Candidates above your score / typical invitations per round (' + medInv.toLocaleString() + '). Below 1:1 = likely invited."><div class="chip-label">Competition</div><div class="chip-val ' + compClass + '">' + compStr + '</div></div>' +
-        '<div class="pool-chip" title="Your position in the pool of ' + total.toLocaleString() + ' candidates"><div class="chip-label">Percentile</div><div class="chip-val ' + colorClass + '">Top ' + topPct + '%</div></div>';
+      // IRCC only publishes counts per score range; show what the spread within yours allows
+      const { low, high } = pos.above;
+      const range = (text) => low === high ? '' : '<div class="chip-range">' + text + '</div>';
+      const ratio = n => (medInv > 0 ? n / medInv : 0).toFixed(1);
+      const rangeNote = low === high ? '' : ' Range: ' + low.toLocaleString() + ' to ' + high.toLocaleString() + ', depending on how candidates are spread within the ' + getScoreRangeLabel(score) + ' range.';
+
+      return (
+        '<div class="pool-chip" title="Candidates with CRS scores at or above yours in the pool, estimated.' + rangeNote + '"><div class="chip-label">Above you</div><div class="chip-val ' + colorClass + '">' + pos.above.estimate.toLocaleString() + '</div>' +
+          range(low.toLocaleString() + '–' + high.toLocaleString()) + '</div>' +
+        '<div class="pool-chip" title="Candidates above your score / typical invitations per round (' + medInv.toLocaleString() + '). Below 1:1 = likely invited."><div class="chip-label">Competition</div><div class="chip-val ' + compClass + '">' + compStr + '</div>' +
+          range(ratio(low) + '–' + ratio(high) + ':1') + '</div>' +
+        '<div class="pool-chip" title="Your position in the pool of ' + total.toLocaleString() + ' candidates"><div class="chip-label">Percentile</div><div class="chip-val ' + colorClass + '">Top ' + topPct + '%</div>' +
+          range(pct(low) + '–' + pct(high) + '%') + '</div>'
+      );
+    }
+
+    // ========== Annual invitations ==========
+
+    let annualChartRef = null;
+
+    // Rounds of the visible categories by calendar year, in date order
+    function visibleRoundsByYear() {
+      const fromYear = timeRange === '3y' ? new Date().getFullYear() - 3 : 0;
+      const byYear = new Map();
+      originalDatasets.forEach(ds => {
+        if (hiddenCategories.has(ds.label)) return;
+        ds.data.forEach(d => {
+          const year = parseInt(d.x.slice(0, 4), 10);
+          if (year < fromYear) return;
+          if (!byYear.has(year)) byYear.set(year, []);
+          byYear.get(year).push({ ...d, category: ds.id });
+        });
+      });
+      byYear.forEach(rounds => rounds.sort((a, b) => a.x.localeCompare(b.x)));
+      return new Map([...byYear].sort((a, b) => a[0] - b[0]));
+    }
+
+    // Category targets follow their category; overall targets only make sense with every category shown
+    function visibleTargets() {
+      return ANNUAL_TARGETS.filter(t => {
+        if (!t.category) return hiddenCategories.size === 0;
+        const ds = originalDatasets.find(d => d.id === t.category);
+        return ds && !hiddenCategories.has(ds.label);
+      });
+    }
+
+    function targetLabel(t) {
+      if (t.label) return t.label;
+      const ds = t.category ? originalDatasets.find(d => d.id === t.category) : null;
+      return t.year + (ds ? ' ' + ds.label : '') + ' target';
+    }
+
+    // Projected year-end total at the current rate, for the year in progress only
+    function yearEndPace(year, total) {
+      const now = new Date();
+      if (year !== now.getFullYear()) return null;
+      const start = Date.UTC(year, 0, 1);
+      const elapsed = (now.getTime() - start) / (Date.UTC(year + 1, 0, 1) - start);
+      return elapsed > 0 ? Math.round(total / elapsed) : null;
     }
 
+    function buildAnnualSection() {
+      const byYear = visibleRoundsByYear();
+      const years = [...byYear.keys()];
+      const targets = visibleTargets().filter(t => byYear.has(t.year));
+
+      // Table: categories down, years across
+      const totals = years.map(y => byYear.get(y).reduce((s, d) => s + d.invitations, 0));
+      const fmt = n => n.toLocaleString();
+      const rows = originalDatasets
+        .filter(ds => !hiddenCategories.has(ds.label))
+        .map(ds => {
+          const cells = years.map(y => byYear.get(y).filter(d => d.category === ds.id).reduce((s, d) => s + d.invitations, 0));
+          if (!cells.some(n => n > 0)) return '';
+          return '<tr><td>' + ds.label + '</td>' + cells.map(n => '<td>' + (n ? fmt(n) : '&ndash;') + '</td>').join('') + '</tr>';
+        }).join('');
+      const summary = [
+        ['Total', totals.map(n => '<strong>' + fmt(n) + '</strong>')],
+        ['Change vs previous year', totals.map((n, i) => {
+          if (i === 0 || !totals[i - 1]) return '&ndash;';
+          const pct = Math.round((n / totals[i - 1] - 1) * 100);
+          return (pct > 0 ? '+' : '') + pct + '%';
+        })],
+        ['Year-end pace', years.map((y, i) => {
+          const pace = yearEndPace(y, totals[i]);
+          return pace ? fmt(pace) : '&ndash;';
+        })],
+      ];
+      if (targets.length) {
+        years.forEach((y, i) => {
+          const yearTargets = targets.filter(t => t.year === y);
+          if (!yearTargets.length) return;
+          yearTargets.forEach(t => {
+            const done = byYear.get(y).filter(d => !t.category || d.category === t.category).reduce((s, d) => s + d.invitations, 0);
+            const cells = years.map(() => '&ndash;');
+            cells[i] = fmt(done) + ' of ' + fmt(t.invitations) + ' (' + Math.round((done / t.invitations) * 100) + '%)';
+            summary.push([targetLabel(t), cells]);
+          });
+        });
+      }
+      document.getElementById('annualTable').innerHTML =
+        '<thead><tr><th>Category</th>' + years.map(y => '<th>' + y + '</th>').join('') + '</tr></thead><tbody>' +
+        rows + summary.map(([label, cells]) => '<tr><td>' + label + '</td>' + cells.map(c => '<td>' + c + '</td>').join('') + '</tr>').join('') +
+        '</tbody>';
+
+      // Chart: every year laid over the same January-December axis
+      if (annualChartRef) {
+        annualChartRef.destroy();
+        annualChartRef = null;
+      }
+      const latestYear = years[years.length - 1];
+      const yearColor = y => YEAR_COLORS[(y - years[0]) % YEAR_COLORS.length];
+      const cumulative = (y, rounds) => {
+        let sum = 0;
+        const data = [{ x: REF_YEAR + '-01-01', y: 0 }];
+        rounds.forEach(d => {
+          sum += d.invitations;
+          data.push({ x: onRefYear(d.x), y: sum, date: d.x, roundNumber: d.roundNumber, invitations: d.invitations });
+        });
+        if (y !== latestYear) data.push({ x: REF_YEAR + '-12-31', y: sum });
+        return data;
+      };
+      const datasets = years.map(y => ({
+        label: String(y),
+        data: cumulative(y, byYear.get(y)),
+        borderColor: yearColor(y),
+        backgroundColor: yearColor(y) + '33',
+        borderWidth: y === latestYear ? 3 : 1.5,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        stepped: 'after',
+      }));
+
+      // A category target is measured against that category alone, not the sum of the visible ones
+      // (with only its category shown, the year's own line already is that)
+      const targetSeries = new Set();
+      const soleCategory = originalDatasets.filter(ds => !hiddenCategories.has(ds.label)).length === 1;
+      targets.filter(t => t.category && !soleCategory).forEach(t => {
+        const key = t.year + '|' + t.category;
+        if (targetSeries.has(key)) return;
+        targetSeries.add(key);
+        const ds = originalDatasets.find(d => d.id === t.category);
+        datasets.push({
+          label: t.year + ' ' + ds.label,
+          data: cumulative(t.year, byYear.get(t.year).filter(d => d.category === t.category)),
+          borderColor: yearColor(t.year),
+          backgroundColor: yearColor(t.year) + '33',
+          borderWidth: 2,
+          borderDash: [2, 3],
+          pointRadius: 0,
+          pointHoverRadius: 4,
+          stepped: 'after',
+        });
+      });
+
+      const annotations = {};
+      targets.forEach((t, i) => {
+        const color = yearColor(t.year);
+        annotations['target_' + i] = {
+          type: 'line',
+          yMin: t.invitations,
+          yMax: t.invitations,
+          borderColor: color,
+          borderWidth: 1.5,
+          borderDash: [6, 4],
+          label: {
+            display: true,
+            content: targetLabel(t) + ': ' + fmt(t.invitations),
+            position: 'end',
+            backgroundColor: color + 'cc',
+            color: '#ffffff',
+            font: { size: 10 },
+          },
+        };
+      });
+
+      const c = getThemeColors();
+      document.getElementById('annualChartContainer').style.height = '400px';
+      annualChartRef = new Chart(document.getElementById('annualChart').getContext('2d'), {
+        type: 'line',
+        data: { datasets },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: { mode: 'nearest', intersect: false },
+          plugins: {
+            annotation: { annotations },
+            legend: {
+              display: true,
+              position: 'bottom',
+              labels: { color: c.tick, font: { size: 10 }, boxWidth: 12, padding: 8 },
+            },
+            tooltip: {
+              callbacks: {
+                title: (items) => {
+                  const d = items[0].raw;
+                  return d.date
+                    ? 'Round #' + d.roundNumber + ' — ' + new Date(d.date).toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric' })
+                    : items[0].dataset.label;
+                },
+                label: (item) => {
+                  const d = item.raw;
+                  const lines = [item.dataset.label + ' total so far: ' + fmt(d.y)];
+                  if (d.invitations) lines.push('This round: ' + fmt(d.invitations));
+                  return lines;
+                },
+              },
+              backgroundColor: c.tooltipBg,
+              titleColor: c.tooltipTitle,
+              bodyColor: c.tooltipBody,
+              borderColor: c.tooltipBorder,
+              borderWidth: 1,
+            },
+          },
+          scales: {
+            x: {
+              type: 'time',
+              min: REF_YEAR + '-01-01',
+              max: REF_YEAR + '-12-31',
+              time: { unit: 'month', displayFormats: { month: 'MMM' } },
+              grid: { color: c.gridX },
+              ticks: { color: c.tick },
+            },
+            y: {
+              beginAtZero: true,
+              grid: { color: c.gridY },
+              ticks: {
+                color: c.tick,
+                callback: function(v) {
+                  if (v >= 1000) return (v / 1000).toFixed(0) + 'k';
+                  return v;
+                },
+              },
+              title: { display: true, text: 'Invitations issued since January 1', color: c.axisTitle },
+            },
+          },
+        },
+      });
+    }
+
+    // ========== Draw cadence ==========
+
+    const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    let cadenceChartRef = null;
+
+    function formatDay(date) {
+      return new Date(date + 'T00:00:00Z').toLocaleDateString('en-CA', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+    }
+
+    function daysSince(date) {
+      return Math.floor((Date.now() - new Date(date + 'T00:00:00Z').getTime()) / DAY_MS);
+    }
+
+    function nextDrawText(c) {
+      if (!c.nextWindow) return '&ndash;';
+      const span = formatDay(c.nextWindow.from) + ' &ndash; ' + formatDay(c.nextWindow.to);
+      const today = new Date().toISOString().slice(0, 10);
+      return today > c.nextWindow.to ? 'Past usual window (' + span + ')' : span;
+    }
+
+    function cadenceRow(name, c) {
+      const since = daysSince(c.lastDate);
+      const stats = c.gapStats;
+      const late = stats && since > stats.high;
+      const gaps = c.recentGaps.map(g =>
+        '<span class="gap-chip' + (g.unusual ? ' ' + g.unusual : '') + '" title="' + formatDay(g.from) + ' to ' + formatDay(g.to) +
+        (g.unusual ? ': ' + g.unusual + ' gap, usual ' + Math.round(stats.low) + '–' + Math.round(stats.high) + ' days' : '') +
+        '">' + g.days + 'd</span>'
+      ).join('');
+      return '<tr><td>' + name + '</td>' +
+        '<td>' + formatDay(c.lastDate) + '</td>' +
+        '<td class="' + (late ? 'unusual' : '') + '"' + (late ? ' title="Longer than the usual gap of up to ' + Math.round(stats.high) + ' days"' : '') + '>' + since + '</td>' +
+        '<td>' + (stats ? stats.median + ' days (' + Math.round(stats.q1) + '–' + Math.round(stats.q3) + ')' : '&ndash;') + '</td>' +
+        '<td>' + nextDrawText(c) + '</td>' +
+        '<td>' + gaps + '</td></tr>';
+    }
+
+    function buildCadenceSection() {
+      const visible = CADENCE.categories.filter(c => {
+        const ds = originalDatasets.find(d => d.id === c.category);
+        return ds && !hiddenCategories.has(ds.label);
+      });
+
+      document.getElementById('cadenceTable').innerHTML =
+        '<thead><tr><th>Category</th><th>Last draw</th><th>Days since</th><th>Typical gap (middle half)</th>' +
+        '<th>Next draw window</th><th>Recent gaps</th></tr></thead><tbody>' +
+        cadenceRow('Any category', CADENCE.overall) +
+        visible.map(c => cadenceRow(c.name, c)).join('') + '</tbody>';
+
+      document.getElementById('cadenceWeekdays').innerHTML = CADENCE.overall.weekdays.map((n, i) =>
+        '<div class="pool-chip" title="Draw dates on a ' + WEEKDAY_NAMES[i] + ' since ' + formatDay(CADENCE.overall.firstDate) + '"><div class="chip-label">' +
+        WEEKDAY_NAMES[i] + '</div><div class="chip-val">' + n + '</div></div>'
+      ).join('');
+
+      // Draw dates per month, stacked by category
+      if (cadenceChartRef) {
+        cadenceChartRef.destroy();
+        cadenceChartRef = null;
+      }
+      const fromMonth = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), 1).toISOString().slice(0, 7)
+        : CADENCE.overall.firstDate.slice(0, 7);
+      const months = [];
+      for (let d = new Date(fromMonth + '-01T00:00:00Z'); d.toISOString().slice(0, 7) <= CADENCE.overall.lastDate.slice(0, 7); d.setUTCMonth(d.getUTCMonth() + 1)) {
+        months.push(d.toISOString().slice(0, 7));
+      }
+      const c = getThemeColors();
+      const datasets = visible.map(cat => {
+        const color = originalDatasets.find(d => d.id === cat.category).borderColor;
+        return {
+          label: cat.name,
+          data: months.map(m => cat.perMonth[m] || 0),
+          backgroundColor: color + 'cc',
+          borderColor: color,
+          borderWidth: 0,
+        };
+      });
+
+      document.getElementById('cadenceChartContainer').style.height = '320px';
+      cadenceChartRef = new Chart(document.getElementById('cadenceChart').getContext('2d'), {
+        type: 'bar',
+        data: {
+          labels: months.map(m => new Date(m + '-01T00:00:00Z').toLocaleDateString('en-CA', { year: 'numeric', month: 'short', timeZone: 'UTC' })),
+          datasets,
+        },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: { mode: 'index', intersect: false },
+          plugins: {
+            legend: {
+              display: true,
+              position: 'bottom',
+              labels: { color: c.tick, font: { size: 10 }, boxWidth: 12, padding: 8 },
+            },
+            tooltip: {
+              filter: (item) => item.raw > 0,
+              backgroundColor: c.tooltipBg,
+              titleColor: c.tooltipTitle,
+              bodyColor: c.tooltipBody,
+              borderColor: c.tooltipBorder,
+              borderWidth: 1,
+            },
+          },
+          scales: {
+            x: { stacked: true, grid: { color: c.gridX }, ticks: { color: c.tick, maxRotation: 45 } },
+            y: {
+              stacked: true,
+              grid: { color: c.gridY },
+              ticks: { color: c.tick, precision: 0 },
+              title: { display: true, text: 'Draws per month', color: c.axisTitle },
+            },
+          },
+        },
+      });
+    }
+
+    // ========== Pool inflow ==========
+
+    const HIGH_RANGES = ['601-1200', '501-600'];
+    let inflowChartRef = null;
+
+    function above500(values) {
+      return HIGH_RANGES.reduce((s, r) => s + (values[r] || 0), 0);
+    }
+
+    function buildInflowSection() {
+      const cutoffDate = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).toISOString().slice(0, 10)
+        : '';
+      const flows = POOL_FLOWS.filter(f => f.to >= cutoffDate);
+
+      if (inflowChartRef) {
+        inflowChartRef.destroy();
+        inflowChartRef = null;
+      }
+      if (!flows.length) return;
+
+      // Table: average over the range first, then each period, newest first
+      const fmt = n => {
+        const text = Math.round(n).toLocaleString();
+        return '<td class="' + (n < 0 ? 'negative' : '') + '">' + (n > 0 ? '+' : '') + text + '</td>';
+      };
+      const totalDays = flows.reduce((s, f) => s + f.days, 0);
+      const average = {};
+      distRangeLabels.forEach(r => {
+        average[r] = flows.reduce((s, f) => s + f.inflow[r], 0) / totalDays * 7;
+      });
+      const period = f => formatDay(f.from) + ' &ndash; ' + formatDay(f.to);
+      const rowCells = (weekly) => '<td class="highlight">' + (above500(weekly) > 0 ? '+' : '') + Math.round(above500(weekly)).toLocaleString() + '</td>' +
+        distRangeLabels.map(r => fmt(weekly[r])).join('');
+      document.getElementById('inflowTable').innerHTML =
+        '<thead><tr><th>Period</th><th>Days</th><th>Draws</th><th>ITAs</th><th>Above 500</th>' +
+        distRangeLabels.map(r => '<th>' + r + '</th>').join('') + '</tr></thead><tbody>' +
+        '<tr class="highlight"><td>Average per week</td><td>' + totalDays + '</td><td>' +
+        flows.reduce((s, f) => s + f.rounds, 0) + '</td><td>' + flows.reduce((s, f) => s + f.invitations, 0).toLocaleString() + '</td>' +
+        rowCells(average) + '</tr>' +
+        [...flows].reverse().map(f =>
+          '<tr><td>' + period(f) + '</td><td>' + f.days + '</td><td>' + f.rounds + '</td><td>' + f.invitations.toLocaleString() + '</td>' +
+          rowCells(f.weeklyInflow) + '</tr>'
+        ).join('') + '</tbody>';
+
+      // Chart: weekly inflow per range, stacked, with the above-500 total as a line
+      const c = getThemeColors();
+      const datasets = [{
+        type: 'line',
+        label: 'Above 500',
+        data: flows.map(f => ({ x: f.to, y: above500(f.weeklyInflow) })),
+        borderColor: '#f59e0b',
+        backgroundColor: '#f59e0b',
+        borderWidth: 2.5,
+        pointRadius: 2,
+        tension: 0.2,
+        stack: 'line',
+      }].concat([...distRangeLabels].reverse().map(r => {
+        const color = distColors[distRangeLabels.indexOf(r)];
+        return {
+          type: 'bar',
+          label: r,
+          data: flows.map(f => ({ x: f.to, y: f.weeklyInflow[r] })),
+          backgroundColor: color + 'cc',
+          borderColor: color,
+          borderWidth: 0,
+          stack: 'ranges',
+        };
+      }));
+
+      document.getElementById('inflowChartContainer').style.height = '420px';
+      inflowChartRef = new Chart(document.getElementById('inflowChart').getContext('2d'), {
+        type: 'bar',
+        data: { datasets },
+        options: {
+          responsive: true,
+          maintainAspectRatio: false,
+          interaction: { mode: 'index', intersect: false },
+          plugins: {
+            legend: {
+              display: true,
+              position: 'bottom',
+              labels: { color: c.tick, font: { size: 10 }, boxWidth: 12, padding: 8 },
+            },
+            tooltip: {
+              callbacks: {
+                title: (items) => {
+                  const f = flows[items[0].dataIndex];
+                  return formatDay(f.from) + ' – ' + formatDay(f.to) + ' (' + f.rounds + ' draws, ' + f.invitations.toLocaleString() + ' ITAs)';
+                },
+                label: (item) => item.dataset.label + ': ' + (item.raw.y > 0 ? '+' : '') + item.raw.y.toLocaleString() + ' / week',
+              },
+              backgroundColor: c.tooltipBg,
+              titleColor: c.tooltipTitle,
+              bodyColor: c.tooltipBody,
+              borderColor: c.tooltipBorder,
+              borderWidth: 1,
+            },
+          },
+          scales: {
+            x: {
+              type: 'time',
+              time: { unit: 'month', displayFormats: { month: 'MMM yyyy' } },
+              stacked: true,
+              grid: { color: c.gridX },
+              ticks: { color: c.tick, maxRotation: 45 },
+            },
+            y: {
+              stacked: true,
+              grid: { color: c.gridY },
+              ticks: { color: c.tick },
+              title: { display: true, text: 'Estimated new candidates per week', color: c.axisTitle },
+            },
+          },
+        },
+      });
+    }
+
+    // ========== CSV export ==========
+
+    function csvCell(value) {
+      if (value === undefined || value === null) return '';
+      const text = String(value);
+      return /[",\\n\\r]/.test(text) ? '"' + text.replace(/"/g, '""') + '"' : text;
+    }
+
+    function downloadCsv(filename, columns, rows) {
+      const csv = [columns, ...rows].map(row => row.map(csvCell).join(',')).join('\\n') + '\\n';
+      const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename + (timeRange === '3y' ? '-last-3-years' : '') + '.csv';
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    }
+
+    // Exports what the charts currently show: time range and visible categories
+    document.getElementById('exportRounds').addEventListener('click', () => {
+      const rows = visibleRounds()
+        .map(d => [d.roundNumber, d.x, d.category, d.categoryName, d.roundType, d.version, d.y, d.invitations, d.tieBreak])
+        .sort((a, b) => a[0] - b[0] || a[1].localeCompare(b[1]));
+      downloadCsv('express-entry-rounds', ROUND_CSV_COLUMNS, rows);
+    });
+
+    document.getElementById('exportDistributions').addEventListener('click', () => {
+      const cutoff = timeRange === '3y'
+        ? new Date(new Date().getFullYear() - 3, new Date().getMonth(), new Date().getDate()).getTime()
+        : 0;
+      const rows = distributionSnapshots
+        .filter(s => new Date(s.date).getTime() >= cutoff)
+        .map(s => [s.date, s.asOfDate, s.round, ...distRangeLabels.map(r => s.ranges[r] || 0), s.total]);
+      downloadCsv('express-entry-pool', DISTRIBUTION_CSV_COLUMNS, rows);
+    });
+
     // Wire up score and time range changes to distribution chart
-    onScoreChanged = function(score) {
-      updatePoolPosition(score);
+    onScoreChanged = function() {
+      updatePoolPosition();
       buildDistChart();
     };
     onTimeRangeChanged = function() {
       buildDistChart();
+      buildInflowSection();
+      buildAnnualSection();
+      buildCadenceSection();
     };
     onThemeChanged = function() {
       buildDistChart();
+      buildInflowSection();
+      buildSimChart();
+      buildAnnualSection();
+      buildCadenceSection();
     };
+    onCategoriesChanged = function() {
+      buildAnnualSection();
+      buildCadenceSection();
+    };
+
+    buildInflowSection();
+    buildAnnualSection();
+    buildCadenceSection();
 
     // Build initial dist chart
     if (distributionSnapshots.length > 0) {
       buildDistChart();
-      if (userScore > 0) updatePoolPosition(userScore);
     }
 
-    // Apply pool position if score was set from URL
-    if (userScore > 0) {
-      updatePoolPosition(userScore);
-    }
+    // Apply pool position if scores were set from URL
+    updatePoolPosition();
   </script>
 </body>
 </html>`;
@@ -1562,6 +3221,55 @@ function main() {
   mkdirSync(OUTPUT_DIR, { recursive: true });
   writeFileSync(OUTPUT_FILE, html);
   console.log(`\nGenerated visualization at ${OUTPUT_FILE}`);
+
+  writeFileSync(join(OUTPUT_DIR, "backtest.json"), JSON.stringify(backtest, null, 2));
+  console.log(`Generated backtest report at ${join(OUTPUT_DIR, "backtest.json")}`);
+
+  // Feeds of every round, newest first
+  const feedRounds = categories.flatMap(({ category, rounds }) =>
+    rounds.map((round) => ({ round, category: category.name, categoryId: category.id }))
+  );
+  const feedOptions = { siteUrl: SITE_URL, updated: data.fetchedAt };
+  writeFileSync(join(OUTPUT_DIR, "feed.xml"), buildAtomFeed(feedRounds, feedOptions));
+  writeFileSync(join(OUTPUT_DIR, "rss.xml"), buildRssFeed(feedRounds, feedOptions));
+  console.log(`Generated feeds at ${join(OUTPUT_DIR, "feed.xml")} and rss.xml`);
+
+  // A linkable page per category, plus a sitemap so they get indexed
+  const categoryPages = buildCategoryPages(colored, {
+    siteUrl: SITE_URL,
+    vendorScripts: vendorScripts("../../"),
+    goatCounter,
+    fetchedAt: data.fetchedAt,
+  });
+  for (const [path, body] of Object.entries(categoryPages)) {
+    const file = join(OUTPUT_DIR, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, body);
+  }
+  writeFileSync(join(OUTPUT_DIR, "sitemap.xml"), buildSitemap(SITE_URL, categories.map((c) => c.category.id), data.fetchedAt));
+  console.log(`Generated ${Object.keys(categoryPages).length} category pages and sitemap.xml`);
+
+  // Static JSON API
+  const apiDir = join(OUTPUT_DIR, "api", "v1");
+  const apiFiles = buildApi({
+    data,
+    categories: colored,
+    snapshots: distSnapshots,
+    generatedAt: new Date().toISOString(),
+  });
+  for (const [path, body] of Object.entries(apiFiles)) {
+    const file = join(apiDir, path);
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(body, null, 2));
+  }
+  console.log(`Generated ${Object.keys(apiFiles).length} API files in ${apiDir}`);
+
+  // CSV and NDJSON downloads
+  const exportFiles = buildExports(listApiRounds(categories), distSnapshots);
+  for (const [name, body] of Object.entries(exportFiles)) {
+    writeFileSync(join(OUTPUT_DIR, name), body);
+  }
+  console.log(`Generated ${Object.keys(exportFiles).join(", ")}`);
 }
 
 main();
@@ -0,0 +1,118 @@
+import type { DrawRound, RoundRevision, ScoreDistribution } from "./types.js";
+
+const ROUND_FIELDS = ["date", "roundType", "invitationsIssued", "crsScore"] as const;
+
+// Optional metadata: a value appearing for the first time is a backfill, not a revision
+const METADATA_FIELDS = [
+  "tieBreakingCutoff",
+  "tieBreakingRule",
+  "drawDateTime",
+  "drawText",
+  "instructions",
+  "url",
+] as const;
+
+const DISTRIBUTION_FIELDS: Array<keyof ScoreDistribution> = [
+  "range601_1200",
+  "range501_600",
+  "range491_500",
+  "range481_490",
+  "range471_480",
+  "range461_470",
+  "range451_460",
+  "range441_450",
+  "range431_440",
+  "range421_430",
+  "range411_420",
+  "range401_410",
+  "range351_400",
+  "range301_350",
+  "range0_300",
+  "total",
+  "asOfDate",
+];
+
+export interface MergeResult {
+  rounds: DrawRound[];
+  added: DrawRound[];
+  revisions: RoundRevision[];
+  retained: DrawRound[]; // previously stored rounds missing from the new payload
+}
+
+/** Compare two versions of the same round and list every field that changed */
+export function diffRound(
+  prev: DrawRound,
+  next: DrawRound,
+  detectedAt: string
+): RoundRevision[] {
+  const revisions: RoundRevision[] = [];
+  const record = (
+    field: string,
+    oldValue: string | number | null,
+    newValue: string | number | null
+  ) => {
+    if (oldValue !== newValue) {
+      revisions.push({ round: next.number, field, oldValue, newValue, detectedAt });
+    }
+  };
+
+  for (const field of ROUND_FIELDS) {
+    record(field, prev[field], next[field]);
+  }
+  for (const field of METADATA_FIELDS) {
+    if (prev[field] !== undefined) record(field, prev[field], next[field] ?? null);
+  }
+
+  // Likewise a distribution published for the first time isn't a revision
+  if (prev.distribution) {
+    for (const field of DISTRIBUTION_FIELDS) {
+      record(
+        `distribution.${field}`,
+        prev.distribution?.[field] ?? null,
+        next.distribution?.[field] ?? null
+      );
+    }
+  }
+
+  return revisions;
+}
+
+/**
+ * Merge freshly fetched rounds into the stored ones. New rounds are appended,
+ * changed rounds take the fetched values and every change is recorded as a
+ * revision. Rounds that disappeared from the payload are kept as they were.
+ *
+ * IRCC occasionally reuses a round number for two same-day draws (e.g. #91),
+ * so rounds sharing a number are paired by roundType first, then by order.
+ */
+export function mergeRounds(
+  existing: DrawRound[],
+  fetched: DrawRound[],
+  detectedAt: string
+): MergeResult {
+  const unmatched = new Map<number, DrawRound[]>();
+  for (const r of existing) {
+    if (!unmatched.has(r.number)) unmatched.set(r.number, []);
+    unmatched.get(r.number)!.push(r);
+  }
+
+  const added: DrawRound[] = [];
+  const revisions: RoundRevision[] = [];
+
+  for (const round of fetched) {
+    const candidates = unmatched.get(round.number) ?? [];
+    let idx = candidates.findIndex((r) => r.roundType === round.roundType);
+    if (idx < 0 && candidates.length > 0) idx = 0;
+    if (idx < 0) {
+      added.push(round);
+    } else {
+      const [prev] = candidates.splice(idx, 1);
+      revisions.push(...diffRound(prev, round, detectedAt));
+    }
+  }
+
+  const retained = [...unmatched.values()].flat();
+  const rounds = [...fetched, ...retained].sort((a, b) => a.number - b.number);
+
+  return { rounds, added, revisions, retained };
+}
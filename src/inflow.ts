@@ -0,0 +1,75 @@
+import type { DistributionSnapshot, DrawRound, PoolFlow } from "./types.js";
+import { SCORE_RANGES, countAboveScore } from "./analytics.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The pool date of a snapshot; IRCC publishes it as text such as "July 19, 2026" */
+function asOfDay(snapshot: DistributionSnapshot): string {
+  const parsed = Date.parse(`${snapshot.asOfDate} UTC`);
+  return Number.isNaN(parsed) ? snapshot.date : new Date(parsed).toISOString().slice(0, 10);
+}
+
+/**
+ * Split a round's invitations across score ranges in proportion to the candidates
+ * at or above its cutoff in each range (within the cutoff's own range, as the density
+ * model spreads them).
+ */
+function attributeInvitations(snapshot: DistributionSnapshot, round: DrawRound): Record<string, number> {
+  const eligible = SCORE_RANGES.map(({ lo, hi }) =>
+    round.crsScore > hi ? 0 : countAboveScore(snapshot, Math.max(lo, round.crsScore)) - countAboveScore(snapshot, hi + 1)
+  );
+  const total = eligible.reduce((s, n) => s + n, 0);
+  const result: Record<string, number> = {};
+  SCORE_RANGES.forEach(({ label, lo, hi }, i) => {
+    if (total > 0) result[label] = (round.invitationsIssued * eligible[i]) / total;
+    else result[label] = round.crsScore >= lo && round.crsScore <= hi ? round.invitationsIssued : 0;
+  });
+  return result;
+}
+
+/**
+ * For each pair of consecutive snapshots: the net change per range, the invitations
+ * issued in between (a round counts from its snapshot's as-of date up to the next one)
+ * and the inflow those imply, i.e. how many candidates arrived in each range.
+ */
+export function estimatePoolFlows(snapshots: DistributionSnapshot[], rounds: DrawRound[]): PoolFlow[] {
+  const flows: PoolFlow[] = [];
+  for (let i = 1; i < snapshots.length; i++) {
+    const prev = snapshots[i - 1];
+    const next = snapshots[i];
+    const from = asOfDay(prev);
+    const to = asOfDay(next);
+    const days = Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+    if (days <= 0) continue;
+
+    const between = rounds.filter((r) => r.date >= from && r.date < to && r.invitationsIssued > 0);
+    const invited: Record<string, number> = Object.fromEntries(SCORE_RANGES.map(({ label }) => [label, 0]));
+    for (const round of between) {
+      const share = attributeInvitations(prev, round);
+      for (const { label } of SCORE_RANGES) invited[label] += share[label];
+    }
+
+    const net: Record<string, number> = {};
+    const inflow: Record<string, number> = {};
+    const weeklyInflow: Record<string, number> = {};
+    for (const { label } of SCORE_RANGES) {
+      net[label] = (next.ranges[label] || 0) - (prev.ranges[label] || 0);
+      invited[label] = Math.round(invited[label]);
+      inflow[label] = net[label] + invited[label];
+      weeklyInflow[label] = Math.round((inflow[label] / days) * 7);
+    }
+
+    flows.push({
+      from,
+      to,
+      days,
+      rounds: between.length,
+      invitations: between.reduce((s, r) => s + r.invitationsIssued, 0),
+      net,
+      invited,
+      inflow,
+      weeklyInflow,
+    });
+  }
+  return flows;
+}
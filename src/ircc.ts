@@ -0,0 +1,135 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import type { DrawRound, IrccPayload, IrccRawRound, ScoreDistribution } from "./types.js";
+import { classifyRoundType } from "./classify.js";
+
+export const JSON_URL =
+  "https://www.canada.ca/content/dam/ircc/documents/json/ee_rounds_123_en.json";
+const SITE_ORIGIN = "https://www.canada.ca";
+export const SOURCE_URL =
+  "https://www.canada.ca/en/immigration-refugees-citizenship/corporate/mandate/policies-operational-instructions-agreements/ministerial-instructions/express-entry-rounds.html";
+
+function parseNumber(str: string | undefined): number {
+  if (!str || str === "undefined" || str === "N/A") return 0;
+  return parseInt(str.replace(/,/g, "").trim(), 10) || 0;
+}
+
+function parseDate(dateStr: string): string {
+  const d = new Date(dateStr);
+  if (!isNaN(d.getTime())) {
+    return d.toISOString().split("T")[0];
+  }
+  return dateStr;
+}
+
+/** Parse IRCC timestamps like "March 10, 2026 at 14:55:46 UTC" into ISO form */
+function parseTimestamp(str: string | undefined): string | undefined {
+  if (!str || str === "undefined" || str === "N/A") return undefined;
+  const d = new Date(str.replace(/\s+at\s+/i, " "));
+  return isNaN(d.getTime()) ? undefined : d.toISOString();
+}
+
+/** Strip markup and collapse whitespace from IRCC's free-text fields */
+function parseText(str: string | undefined): string | undefined {
+  if (!str || str === "undefined") return undefined;
+  const entities: Record<string, string> = { nbsp: " ", amp: "&", ndash: "–", mdash: "—", rsquo: "’", quot: '"' };
+  const text = str
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&(\w+);/g, (m, name) => entities[name] ?? m)
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;])/g, "$1")
+    .trim();
+  return text || undefined;
+}
+
+/** drawNumberURL is either a plain path or an anchor tag wrapping one */
+function parseLink(str: string | undefined): string | undefined {
+  if (!str || str === "undefined") return undefined;
+  const href = str.match(/href=["']([^"']+)["']/i)?.[1] ?? str.trim();
+  if (!/^(https?:\/\/|\/)/i.test(href)) return undefined;
+  return new URL(href, SITE_ORIGIN).toString();
+}
+
+function parseDistribution(round: IrccRawRound): ScoreDistribution | undefined {
+  // dd1-dd18 map to score ranges (dd3 and dd9 are aggregates of sub-ranges, skip them)
+  const dd1 = parseNumber(round.dd1);
+  const total = parseNumber(round.dd18);
+  if (!total) return undefined;
+
+  return {
+    range601_1200: dd1,
+    range501_600: parseNumber(round.dd2),
+    range491_500: parseNumber(round.dd4),
+    range481_490: parseNumber(round.dd5),
+    range471_480: parseNumber(round.dd6),
+    range461_470: parseNumber(round.dd7),
+    range451_460: parseNumber(round.dd8),
+    range441_450: parseNumber(round.dd10),
+    range431_440: parseNumber(round.dd11),
+    range421_430: parseNumber(round.dd12),
+    range411_420: parseNumber(round.dd13),
+    range401_410: parseNumber(round.dd14),
+    range351_400: parseNumber(round.dd15),
+    range301_350: parseNumber(round.dd16),
+    range0_300: parseNumber(round.dd17),
+    total,
+    asOfDate: round.drawDistributionAsOn || "",
+  };
+}
+
+/** Load the raw IRCC payload from a URL or from a saved copy on disk */
+export async function loadPayload(source: string): Promise<unknown> {
+  if (/^https?:\/\//i.test(source)) {
+    const response = await fetch(source);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+  return JSON.parse(readFileSync(resolve(source), "utf-8"));
+}
+
+/** Parse a payload that validatePayload() has checked */
+export function parseRounds(payload: IrccPayload): DrawRound[] {
+  const rounds: DrawRound[] = [];
+
+  for (const round of Object.values(payload.rounds)) {
+    const num = parseNumber(round.drawNumber);
+    if (!num) continue;
+
+    const roundType = round.drawName || round.drawText2 || "";
+    const drawRound: DrawRound = {
+      number: num,
+      date: parseDate(round.drawDateFull || round.drawDate || ""),
+      roundType,
+      ...classifyRoundType(roundType),
+      invitationsIssued: parseNumber(round.drawSize),
+      crsScore: parseNumber(round.drawCRS),
+    };
+
+    const metadata = {
+      tieBreakingCutoff: parseTimestamp(round.drawCutOff),
+      tieBreakingRule: parseText(round.drawCutOff),
+      drawDateTime: parseTimestamp(round.drawDateTime),
+      drawText: parseText(round.DrawText1),
+      instructions: parseText(round.mitext),
+      url: parseLink(round.drawNumberURL),
+    };
+    // Only keep the fields IRCC actually published for this round
+    Object.assign(
+      drawRound,
+      Object.fromEntries(Object.entries(metadata).filter(([, v]) => v !== undefined))
+    );
+
+    const dist = parseDistribution(round);
+    if (dist) {
+      drawRound.distribution = dist;
+    }
+
+    rounds.push(drawRound);
+  }
+
+  // Sort by round number
+  rounds.sort((a, b) => a.number - b.number);
+  return rounds;
+}
@@ -0,0 +1,196 @@
+import { readFileSync, writeFileSync, existsSync } from "fs";
+import { join, dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import type {
+  AlertConfig,
+  AlertLedger,
+  AlertPayload,
+  AlertRule,
+  Category,
+  DrawData,
+  DrawRound,
+  IrccPayload,
+} from "./types.js";
+import { mergeRounds } from "./history.js";
+import { validatePayload, formatIssue } from "./validate.js";
+import { JSON_URL, loadPayload, parseRounds } from "./ircc.js";
+import { loadCategoryRules, categorize } from "./categories.js";
+
+const DATA_FILE = join(dirname(fileURLToPath(import.meta.url)), "data", "rounds.json");
+
+function matches(rule: AlertRule, round: DrawRound, category: Category): boolean {
+  if (rule.categories && !rule.categories.includes(category.id)) return false;
+  if (rule.crsAtOrBelow !== undefined && round.crsScore > rule.crsAtOrBelow) return false;
+  if (rule.invitationsAbove !== undefined && round.invitationsIssued <= rule.invitationsAbove) return false;
+  return true;
+}
+
+function resolveWebhook(config: AlertConfig, name: string): string {
+  const url = config.webhooks[name];
+  if (!url) throw new Error(`Unknown webhook "${name}"`);
+  if (url.startsWith("env:")) {
+    const value = process.env[url.slice(4)];
+    if (!value) throw new Error(`Webhook "${name}" needs the ${url.slice(4)} environment variable`);
+    return value;
+  }
+  return url;
+}
+
+function loadConfig(file: string): AlertConfig {
+  const config = JSON.parse(readFileSync(file, "utf-8")) as AlertConfig;
+  if (!config.webhooks || !Array.isArray(config.rules)) {
+    throw new Error(`${file}: expected "webhooks" and "rules"`);
+  }
+  for (const rule of config.rules) {
+    if (!rule.id || !Array.isArray(rule.webhooks) || rule.webhooks.length === 0) {
+      throw new Error(`${file}: every rule needs an "id" and at least one webhook`);
+    }
+    rule.webhooks.forEach((name) => {
+      if (!(name in config.webhooks)) throw new Error(`${file}: rule "${rule.id}" uses unknown webhook "${name}"`);
+    });
+  }
+  return config;
+}
+
+function parseCount(option: string, value: string): number {
+  if (!/^\d+$/.test(value)) throw new Error(`--${option} must be a whole number of 0 or more, got "${value}"`);
+  return parseInt(value, 10);
+}
+
+// Ledger keys are webhook|round|roundType. Older ledgers prefixed the rule id, which is dropped here
+function ledgerKey(key: string): string {
+  return key.split("|").slice(-3).join("|");
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** POST JSON, retrying network errors, 429 and 5xx with exponential backoff */
+async function deliver(url: string, body: AlertPayload, retries: number, retryDelay: number): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    let reason: string;
+    let retryable = true;
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(10_000),
+      });
+      if (response.ok) return;
+      reason = `${response.status} ${response.statusText}`;
+      retryable = response.status === 429 || response.status >= 500;
+    } catch (err) {
+      reason = err instanceof Error ? err.message : String(err);
+    }
+    if (!retryable || attempt >= retries) throw new Error(`${reason} (after ${attempt + 1} attempts)`);
+    const delay = retryDelay * 2 ** attempt;
+    console.log(`    attempt ${attempt + 1} failed (${reason}), retrying in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+async function main() {
+  const { values: args } = parseArgs({
+    options: {
+      source: { type: "string", default: process.env.EE_SOURCE || JSON_URL },
+      data: { type: "string", default: DATA_FILE },
+      config: { type: "string", default: process.env.EE_ALERTS || "alerts.json" },
+      ledger: { type: "string" },
+      retries: { type: "string", default: "3" },
+      "retry-delay": { type: "string", default: "1000" },
+      "dry-run": { type: "boolean", default: false },
+    },
+  });
+  const configFile = resolve(args.config);
+  const ledgerFile = resolve(args.ledger ?? join(dirname(configFile), "alerts-ledger.json"));
+  const retries = parseCount("retries", args.retries);
+  const retryDelay = parseCount("retry-delay", args["retry-delay"]);
+
+  const config = loadConfig(configFile);
+  const ledger: AlertLedger = existsSync(ledgerFile)
+    ? JSON.parse(readFileSync(ledgerFile, "utf-8"))
+    : { sent: [] };
+  const sentKeys = new Set(ledger.sent.map((s) => ledgerKey(s.key)));
+
+  console.log(`Loading Express Entry data from ${args.source}...`);
+  const payload = await loadPayload(args.source);
+  const issues = validatePayload(payload);
+  const errors = issues.filter((i) => i.severity === "error");
+  if (errors.length > 0) {
+    errors.forEach((i) => console.log(`  ${formatIssue(i)}`));
+    throw new Error(`Payload validation failed with ${errors.length} error(s); no alerts sent`);
+  }
+
+  // New rounds are the ones the saved data doesn't have yet
+  const previous: DrawData | null = existsSync(resolve(args.data))
+    ? JSON.parse(readFileSync(resolve(args.data), "utf-8"))
+    : null;
+  const { added } = mergeRounds(previous?.rounds ?? [], parseRounds(payload as IrccPayload), new Date().toISOString());
+  console.log(`New rounds since ${args.data}: ${added.length}`);
+
+  const categoryRules = loadCategoryRules();
+  let sent = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const round of added) {
+    const category = categorize(round, categoryRules);
+    // One delivery per webhook, listing every rule that sent the round there
+    const byWebhook = new Map<string, string[]>();
+    for (const rule of config.rules.filter((r) => matches(r, round, category))) {
+      for (const webhook of rule.webhooks) {
+        byWebhook.set(webhook, [...(byWebhook.get(webhook) ?? []), rule.id]);
+      }
+    }
+
+    for (const [webhook, rules] of byWebhook) {
+      const key = `${webhook}|${round.number}|${round.roundType}`;
+      const label = `#${round.number} ${category.name} (CRS ${round.crsScore}) -> ${rules.join(", ")} -> ${webhook}`;
+      if (sentKeys.has(key)) {
+        skipped++;
+        continue;
+      }
+      if (args["dry-run"]) {
+        console.log(`  would send ${label}`);
+        continue;
+      }
+
+      const body: AlertPayload = {
+        event: "round.matched",
+        rules,
+        round: {
+          number: round.number,
+          date: round.date,
+          roundType: round.roundType,
+          category: category.id,
+          categoryName: category.name,
+          crsScore: round.crsScore,
+          invitationsIssued: round.invitationsIssued,
+          tieBreakingCutoff: round.tieBreakingCutoff,
+        },
+        sentAt: new Date().toISOString(),
+      };
+      try {
+        await deliver(resolveWebhook(config, webhook), body, retries, retryDelay);
+        sent++;
+        sentKeys.add(key);
+        ledger.sent.push({ key, sentAt: body.sentAt });
+        // Record each delivery right away so a crash can't cause a repeat
+        writeFileSync(ledgerFile, JSON.stringify(ledger, null, 2));
+        console.log(`  sent ${label}`);
+      } catch (err) {
+        failed++;
+        console.error(`  FAILED ${label}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+  }
+
+  console.log(`\nAlerts sent: ${sent}, already sent: ${skipped}, failed: ${failed}`);
+  if (failed > 0) process.exit(1);
+}
+
+main().catch((err) => {
+  console.error("Error:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
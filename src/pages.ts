@@ -0,0 +1,270 @@
+import type { Category, DrawRound } from "./types.js";
+import { categoryStats } from "./api.js";
+import { classifyRound } from "./classify.js";
+
+export interface CategoryPageInput {
+  category: Category;
+  rounds: DrawRound[];
+  color: string;
+}
+
+export interface CategoryPageOptions {
+  siteUrl: string;
+  vendorScripts: string; // script tags, with paths relative to the category page
+  goatCounter: string;
+  fetchedAt: string;
+}
+
+/** Path of a category's page, relative to the site root */
+export function categoryPagePath(id: string): string {
+  return `category/${encodeURIComponent(id)}/`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// JSON that can sit inside a <script> element
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+const STYLE = `
+    :root {
+      --bg: #f8fafc;
+      --bg-card: #ffffff;
+      --bg-hover: #e2e8f0;
+      --border: #cbd5e1;
+      --text: #1e293b;
+      --text-heading: #0f172a;
+      --text-muted: #64748b;
+      --grid-line: #e2e8f0;
+      --link: #2563eb;
+    }
+    @media (prefers-color-scheme: dark) {
+      :root {
+        --bg: #0f172a;
+        --bg-card: #1e293b;
+        --bg-hover: #334155;
+        --border: #334155;
+        --text: #e2e8f0;
+        --text-heading: #f1f5f9;
+        --text-muted: #94a3b8;
+        --grid-line: #334155;
+        --link: #60a5fa;
+      }
+    }
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: var(--bg);
+      color: var(--text);
+      padding: 20px;
+      max-width: 1200px;
+      margin: 0 auto;
+    }
+    a { color: var(--link); }
+    .crumbs { font-size: 0.85rem; margin-bottom: 8px; }
+    h1 { color: var(--text-heading); font-size: 1.6rem; margin-bottom: 4px; }
+    h2 { color: var(--text-heading); font-size: 1.1rem; margin: 24px 0 10px; }
+    .subtitle { color: var(--text-muted); font-size: 0.9rem; margin-bottom: 16px; }
+    .stats { display: flex; flex-wrap: wrap; gap: 10px; margin-bottom: 16px; }
+    .stat {
+      background: var(--bg-card);
+      border-radius: 8px;
+      padding: 8px 14px;
+      border-left: 3px solid var(--accent);
+    }
+    .stat-label { font-size: 0.65rem; color: var(--text-muted); text-transform: uppercase; }
+    .stat-val { font-size: 1rem; font-weight: 700; }
+    .chart-container { background: var(--bg-card); border-radius: 12px; padding: 16px; height: 380px; }
+    .table-scroll { overflow-x: auto; background: var(--bg-card); border-radius: 12px; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { padding: 6px 10px; text-align: left; border-bottom: 1px solid var(--border); white-space: nowrap; }
+    td.num, th.num { text-align: right; }
+    th button {
+      background: none;
+      border: none;
+      color: var(--text-heading);
+      font: inherit;
+      font-weight: 700;
+      cursor: pointer;
+    }
+    th[aria-sort="ascending"] button::after { content: " \\25B2"; }
+    th[aria-sort="descending"] button::after { content: " \\25BC"; }
+    tbody tr:hover { background: var(--bg-hover); }
+    .others { display: flex; flex-wrap: wrap; gap: 8px; list-style: none; }
+    .others a {
+      display: block;
+      background: var(--bg-card);
+      border-radius: 6px;
+      padding: 4px 10px;
+      text-decoration: none;
+      font-size: 0.85rem;
+    }
+    .others a[aria-current="page"] { font-weight: 700; outline: 1px solid var(--link); }
+    .footer { text-align: center; margin-top: 24px; font-size: 0.75rem; color: var(--text-muted); }
+`;
+
+// Draws the cutoff chart and makes the table headers sort the rows
+const SCRIPT = `
+    const css = getComputedStyle(document.documentElement);
+    new Chart(document.getElementById('chart').getContext('2d'), {
+      type: 'line',
+      data: {
+        datasets: [{
+          label: CATEGORY.name,
+          data: ROUNDS.map(r => ({ x: r.date, y: r.crsScore, number: r.number, invitations: r.invitationsIssued })),
+          borderColor: CATEGORY.color,
+          backgroundColor: CATEGORY.color,
+          pointRadius: 3,
+          borderWidth: 1.5,
+          tension: 0.1,
+        }],
+      },
+      options: {
+        responsive: true,
+        maintainAspectRatio: false,
+        plugins: {
+          legend: { display: false },
+          tooltip: {
+            callbacks: {
+              title: items => 'Round #' + items[0].raw.number + ' \\u00b7 ' + items[0].raw.x,
+              label: item => 'Cutoff ' + item.raw.y + ' \\u00b7 ' + item.raw.invitations.toLocaleString() + ' invitations',
+            },
+          },
+        },
+        scales: {
+          x: { type: 'time', time: { unit: 'month', tooltipFormat: 'yyyy-MM-dd' }, grid: { color: css.getPropertyValue('--grid-line') }, ticks: { color: css.getPropertyValue('--text-muted') } },
+          y: { title: { display: true, text: 'CRS cutoff', color: css.getPropertyValue('--text-muted') }, grid: { color: css.getPropertyValue('--grid-line') }, ticks: { color: css.getPropertyValue('--text-muted') } },
+        },
+      },
+    });
+
+    const table = document.getElementById('rounds');
+    table.querySelectorAll('th button').forEach(button => {
+      button.addEventListener('click', () => {
+        const th = button.parentElement;
+        const col = [...th.parentElement.children].indexOf(th);
+        const numeric = th.classList.contains('num');
+        const dir = th.getAttribute('aria-sort') === 'descending' ? 1 : -1;
+        table.querySelectorAll('th').forEach(h => h.removeAttribute('aria-sort'));
+        th.setAttribute('aria-sort', dir === 1 ? 'ascending' : 'descending');
+        const body = table.tBodies[0];
+        const key = row => row.cells[col].dataset.sort;
+        [...body.rows]
+          .sort((a, b) => dir * (numeric ? key(a) - key(b) : key(a).localeCompare(key(b))))
+          .forEach(row => body.appendChild(row));
+      });
+    });
+`;
+
+function roundRow(round: DrawRound): string {
+  const { version } = classifyRound(round);
+  return `<tr>
+        <td class="num" data-sort="${round.number}">${round.number}</td>
+        <td data-sort="${round.date}">${round.date}</td>
+        <td class="num" data-sort="${round.crsScore}">${round.crsScore}</td>
+        <td class="num" data-sort="${round.invitationsIssued}">${round.invitationsIssued.toLocaleString("en-CA")}</td>
+        <td data-sort="${escapeHtml(round.roundType)}">${round.url ? `<a href="${escapeHtml(round.url)}">${escapeHtml(round.roundType)}</a>` : escapeHtml(round.roundType)}</td>
+        <td class="num" data-sort="${version ?? 0}">${version ?? "-"}</td>
+      </tr>`;
+}
+
+function categoryPage(page: CategoryPageInput, all: CategoryPageInput[], options: CategoryPageOptions): string {
+  const { category, color } = page;
+  const rounds = [...page.rounds].sort((a, b) => b.date.localeCompare(a.date) || b.number - a.number);
+  const stats = categoryStats(rounds);
+  const name = escapeHtml(category.name);
+  const url = `${options.siteUrl}${categoryPagePath(category.id)}`;
+  const description = `${stats.rounds} Express Entry rounds for ${category.name} from ${stats.firstDate} to ${stats.lastDate}: CRS cutoffs from ${stats.minCrs} to ${stats.maxCrs}, ${stats.totalInvitations.toLocaleString("en-CA")} invitations.`;
+  const stat = (label: string, value: string | number) =>
+    `<div class="stat"><div class="stat-label">${label}</div><div class="stat-val">${value}</div></div>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${name} - Express Entry CRS Cutoffs</title>
+  <meta name="description" content="${escapeHtml(description)}">
+  <link rel="canonical" href="${escapeHtml(url)}">
+  ${options.vendorScripts}
+  <style>${STYLE}    :root { --accent: ${color}; }
+  </style>
+  ${options.goatCounter}
+</head>
+<body>
+  <p class="crumbs"><a href="../../">Express Entry CRS Score Trends</a> / ${name}</p>
+  <h1>${name}</h1>
+  <p class="subtitle">${escapeHtml(description)}</p>
+
+  <div class="stats">
+    ${stat("First draw", stats.firstDate)}
+    ${stat("Last draw", stats.lastDate)}
+    ${stat("Rounds", stats.rounds)}
+    ${stat("Lowest cutoff", stats.minCrs)}
+    ${stat("Median cutoff", stats.medianCrs)}
+    ${stat("Highest cutoff", stats.maxCrs)}
+    ${stat("Invitations", stats.totalInvitations.toLocaleString("en-CA"))}
+  </div>
+
+  <div class="chart-container"><canvas id="chart" aria-label="CRS cutoff per round"></canvas></div>
+
+  <h2>Rounds</h2>
+  <div class="table-scroll">
+    <table id="rounds">
+      <thead><tr>
+        <th class="num"><button type="button">Round</button></th>
+        <th aria-sort="descending"><button type="button">Date</button></th>
+        <th class="num"><button type="button">Cutoff</button></th>
+        <th class="num"><button type="button">Invitations</button></th>
+        <th><button type="button">Round type</button></th>
+        <th class="num"><button type="button">Version</button></th>
+      </tr></thead>
+      <tbody>
+      ${rounds.map(roundRow).join("\n      ")}
+      </tbody>
+    </table>
+  </div>
+
+  <h2>Other categories</h2>
+  ${categoryPageLinks(all, "../../", category.id)}
+
+  <p class="footer">
+    Contains information licensed under the <a href="https://open.canada.ca/en/open-government-licence-canada">Open Government Licence &ndash; Canada</a>.
+    Fetched ${new Date(options.fetchedAt).toLocaleDateString()}
+    &middot; <a href="../../api/v1/categories/${encodeURIComponent(category.id)}.json">JSON</a>
+  </p>
+
+  <script>
+    const CATEGORY = ${scriptJson({ id: category.id, name: category.name, color })};
+    const ROUNDS = ${scriptJson([...rounds].reverse().map(({ number, date, crsScore, invitationsIssued }) => ({ number, date, crsScore, invitationsIssued })))};
+${SCRIPT}  </script>
+</body>
+</html>`;
+}
+
+/** List of links to the category pages; `base` is the path from the page to the site root */
+export function categoryPageLinks(pages: Array<Pick<CategoryPageInput, "category" | "rounds">>, base = "", current?: string): string {
+  const items = pages.map(
+    ({ category, rounds }) =>
+      `<li><a href="${base}${categoryPagePath(category.id)}"${category.id === current ? ' aria-current="page"' : ""}>${escapeHtml(category.name)} (${rounds.length})</a></li>`
+  );
+  return `<ul class="others">\n    ${items.join("\n    ")}\n  </ul>`;
+}
+
+/** One page per category, keyed by output path relative to the site root */
+export function buildCategoryPages(pages: CategoryPageInput[], options: CategoryPageOptions): Record<string, string> {
+  return Object.fromEntries(
+    pages.map((page) => [`${categoryPagePath(page.category.id)}index.html`, categoryPage(page, pages, options)])
+  );
+}
+
+/** sitemap.xml listing the main page and every category page */
+export function buildSitemap(siteUrl: string, ids: string[], lastmod: string): string {
+  const urls = ["", ...ids.map(categoryPagePath)].map(
+    (path) => `  <url><loc>${escapeHtml(siteUrl + path)}</loc><lastmod>${lastmod.slice(0, 10)}</lastmod></url>`
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join("\n")}\n</urlset>\n`;
+}
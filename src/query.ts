@@ -0,0 +1,196 @@
+import { readFileSync } from "fs";
+import { join, dirname, resolve } from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import type {
+  Category,
+  DistributionSnapshot,
+  DrawData,
+  DrawRound,
+  QueryClearedRow,
+  QueryLatestRow,
+  QueryPoolResult,
+} from "./types.js";
+import { loadCategoryRules, groupByCategory } from "./categories.js";
+import { buildDistributionSnapshots } from "./distribution.js";
+import { poolDensity } from "./analytics.js";
+
+const DATA_FILE = join(dirname(fileURLToPath(import.meta.url)), "data", "rounds.json");
+
+const USAGE = `Usage: npm run query -- <command> [options]
+
+Commands:
+  cleared --score <n>   rounds per category whose cutoff the score met
+  latest                latest round per category
+  pool --score <n>      candidates at or above the score in a pool snapshot
+
+Options:
+  --since <date>        only rounds on or after YYYY, YYYY-MM or YYYY-MM-DD
+  --until <date>        only rounds on or before it (pool: latest snapshot by then)
+  --category <id>       limit to a category; repeat for several
+  --rounds              cleared: list each cleared round instead of per-category totals
+  --data <file>         rounds.json to read (default: src/data/rounds.json)
+  --json                print JSON instead of a table`;
+
+type CategoryRounds = { category: Category; rounds: DrawRound[] };
+
+/** "2024" -> "2024-01-01", "2024-06" -> "2024-06-01"; end of the period with `end` */
+function parseDate(value: string, end = false): string {
+  const m = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/.exec(value);
+  if (!m) throw new Error(`Invalid date "${value}", expected YYYY, YYYY-MM or YYYY-MM-DD`);
+  if (m[3]) return value;
+  if (m[2]) return end ? `${m[1]}-${m[2]}-31` : `${m[1]}-${m[2]}-01`;
+  return end ? `${m[1]}-12-31` : `${m[1]}-01-01`;
+}
+
+function parseScore(value: string | undefined): number {
+  const score = Number(value);
+  if (value === undefined || !Number.isInteger(score) || score < 0 || score > 1200) {
+    throw new Error(`--score must be a whole number from 0 to 1200`);
+  }
+  return score;
+}
+
+export function queryCleared(categories: CategoryRounds[], score: number): QueryClearedRow[] {
+  return categories.map(({ category, rounds }) => {
+    const cleared = rounds
+      .filter((r) => r.crsScore <= score)
+      .sort((a, b) => b.date.localeCompare(a.date) || b.number - a.number);
+    return {
+      category: category.id,
+      name: category.name,
+      rounds: rounds.length,
+      cleared: cleared.length,
+      atCutoff: cleared.filter((r) => r.crsScore === score).length,
+      lastCleared: cleared.length ? cleared[0].date : null,
+      lowestCutoff: rounds.length ? Math.min(...rounds.map((r) => r.crsScore)) : null,
+      clearedRounds: cleared.map((r) => ({ number: r.number, date: r.date, crsScore: r.crsScore })),
+    };
+  });
+}
+
+export function queryLatest(categories: CategoryRounds[]): QueryLatestRow[] {
+  return categories.map(({ category, rounds }) => {
+    const latest = rounds.reduce((a, b) => (b.date.localeCompare(a.date) || b.number - a.number) > 0 ? b : a);
+    return {
+      category: category.id,
+      name: category.name,
+      number: latest.number,
+      date: latest.date,
+      crsScore: latest.crsScore,
+      invitationsIssued: latest.invitationsIssued,
+    };
+  });
+}
+
+export function queryPool(snapshot: DistributionSnapshot, score: number): QueryPoolResult {
+  const { estimate, low, high } = poolDensity(snapshot).above(score);
+  return {
+    score,
+    date: snapshot.date,
+    asOfDate: snapshot.asOfDate,
+    above: estimate,
+    aboveLow: low,
+    aboveHigh: high,
+    total: snapshot.total,
+    share: snapshot.total > 0 ? Math.round((estimate / snapshot.total) * 10000) / 10000 : 0,
+  };
+}
+
+/** Plain-text table; numbers are right-aligned */
+function formatTable(headers: string[], rows: Array<Array<string | number | null>>): string {
+  const cells = rows.map((row) => row.map((v) => (v === null ? "-" : typeof v === "number" ? v.toLocaleString("en-CA") : v)));
+  const widths = headers.map((h, i) => Math.max(h.length, ...cells.map((row) => row[i].length)));
+  const numeric = headers.map((_, i) => rows.length > 0 && rows.every((row) => typeof row[i] === "number" || row[i] === null));
+  const line = (row: string[]) => row.map((v, i) => (numeric[i] ? v.padStart(widths[i]) : v.padEnd(widths[i]))).join("  ").trimEnd();
+  return [line(headers), line(widths.map((w) => "-".repeat(w))), ...cells.map(line)].join("\n");
+}
+
+function main() {
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      score: { type: "string" },
+      since: { type: "string" },
+      until: { type: "string" },
+      category: { type: "string", multiple: true },
+      data: { type: "string", default: DATA_FILE },
+      rounds: { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command] = positionals;
+  if (args.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+
+  const data: DrawData = JSON.parse(readFileSync(resolve(args.data), "utf-8"));
+  const since = args.since ? parseDate(args.since) : null;
+  const until = args.until ? parseDate(args.until, true) : null;
+  const inPeriod = (date: string) => (!since || date >= since) && (!until || date <= until);
+
+  let categories = groupByCategory(data.rounds.filter((r) => inPeriod(r.date)), loadCategoryRules());
+  if (args.category) {
+    const known = new Set(categories.map((c) => c.category.id));
+    const unknown = args.category.filter((id) => !known.has(id));
+    if (unknown.length) throw new Error(`No rounds in the period for category ${unknown.map((id) => `"${id}"`).join(", ")}`);
+    categories = categories.filter((c) => args.category!.includes(c.category.id));
+  }
+
+  const print = (json: unknown, table: () => string) => console.log(args.json ? JSON.stringify(json, null, 2) : table());
+
+  switch (command) {
+    case "cleared": {
+      const score = parseScore(args.score);
+      const rows = queryCleared(categories, score);
+      print(rows, () =>
+        (args.rounds
+          ? formatTable(
+              ["Category", "Round", "Date", "Cutoff"],
+              rows.flatMap((r) => r.clearedRounds.map((c) => [r.name, c.number, c.date, c.crsScore]))
+            )
+          : formatTable(
+              ["Category", "Rounds", "Cleared", "At cutoff", "Last cleared", "Lowest cutoff"],
+              rows.map((r) => [r.name, r.rounds, r.cleared, r.atCutoff, r.lastCleared, r.lowestCutoff])
+            )) + `\n\nCleared: cutoff at or below ${score}. At the cutoff itself, tie-breaking decides.`
+      );
+      break;
+    }
+    case "latest": {
+      const rows = queryLatest(categories);
+      print(rows, () =>
+        formatTable(
+          ["Category", "Round", "Date", "Cutoff", "Invitations"],
+          rows.map((r) => [r.name, r.number, r.date, r.crsScore, r.invitationsIssued])
+        )
+      );
+      break;
+    }
+    case "pool": {
+      const score = parseScore(args.score);
+      // The pool isn't per category, so --category doesn't apply; --since/--until pick the snapshot
+      const snapshots = buildDistributionSnapshots(data.rounds).filter((s) => inPeriod(s.date));
+      const snapshot = snapshots[snapshots.length - 1];
+      if (!snapshot) throw new Error("No pool distribution in the period");
+      const result = queryPool(snapshot, score);
+      print(result, () =>
+        formatTable(
+          ["Score", "Pool as of", "At or above", "Low", "High", "Pool total", "Share"],
+          [[result.score, result.asOfDate, result.above, result.aboveLow, result.aboveHigh, result.total, `${(result.share * 100).toFixed(1)}%`]]
+        ) + `\n\nIRCC publishes counts per score range. Low and high bound the count for any plausible spread within ${result.score}'s range.`
+      );
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+}
+
+try {
+  main();
+} catch (err) {
+  console.error("Error:", err instanceof Error ? err.message : err);
+  process.exit(1);
+}
@@ -0,0 +1,24 @@
+import { existsSync, readFileSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import type { AnnualTarget } from "./types.js";
+
+const TARGETS_FILE = join(dirname(fileURLToPath(import.meta.url)), "data", "targets.json");
+
+/** Annual invitation targets drawn as reference lines. The default file is optional. */
+export function loadTargets(file?: string): AnnualTarget[] {
+  const path = file ?? TARGETS_FILE;
+  if (!file && !existsSync(path)) return [];
+  const { targets } = JSON.parse(readFileSync(path, "utf-8")) as { targets: AnnualTarget[] };
+  if (!Array.isArray(targets)) throw new Error(`${path}: expected a "targets" array`);
+  targets.forEach((target, i) => {
+    if (!Number.isInteger(target.year)) throw new Error(`${path}: target ${i} needs a numeric "year"`);
+    if (typeof target.invitations !== "number" || target.invitations <= 0) {
+      throw new Error(`${path}: target ${i} needs a positive "invitations"`);
+    }
+    if (target.category !== undefined && (typeof target.category !== "string" || !target.category)) {
+      throw new Error(`${path}: target ${i} has an invalid "category"`);
+    }
+  });
+  return targets;
+}
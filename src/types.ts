@@ -18,17 +18,326 @@ export interface ScoreDistribution {
   asOfDate: string;
 }
 
-export interface DrawRound {
+/** Which stream a round invited from; category-based rounds also carry a categoryFamily */
+export type DrawProgram = "general" | "pnp" | "cec" | "fsw" | "fst" | "category" | "unknown";
+
+export interface RoundClassification {
+  program: DrawProgram;
+  categoryFamily?: string; // stable id shared by every version of a category, e.g. "healthcare"
+  version?: number; // category eligibility version, e.g. 3 for "2026-Version 3"
+  year?: number; // year in the version label, e.g. 2026
+}
+
+export interface DrawRound extends Partial<RoundClassification> {
   number: number;
   date: string; // ISO date string YYYY-MM-DD
   roundType: string;
   invitationsIssued: number;
   crsScore: number;
   distribution?: ScoreDistribution;
+  // Candidates at exactly crsScore were invited only if their profile was
+  // submitted before this moment (ISO timestamp, UTC)
+  tieBreakingCutoff?: string;
+  tieBreakingRule?: string; // as published, e.g. "March 10, 2026 at 14:55:46 UTC"
+  drawDateTime?: string; // ISO timestamp of the draw itself
+  drawText?: string; // programs covered by the round, as published
+  instructions?: string; // ministerial instructions the round was held under
+  url?: string; // IRCC page for this round
+}
+
+/** A round as IRCC publishes it: every field is a string, and any of them may be missing */
+export type IrccRawRound = Record<string, string | undefined>;
+
+/** The IRCC rounds payload, once validatePayload() has found no errors */
+export interface IrccPayload {
+  rounds: Record<string, IrccRawRound>;
+}
+
+/** Pool distribution published with a round, keyed by range label ("491-500") */
+export interface DistributionSnapshot {
+  date: string; // date of the round that published it, YYYY-MM-DD
+  asOfDate: string; // as published by IRCC, e.g. "July 19, 2026"
+  round: number;
+  ranges: Record<string, number>;
+  total: number;
+}
+
+export interface RoundRevision {
+  round: number;
+  field: string; // DrawRound key, or "distribution.<key>" for pool snapshot fields
+  oldValue: string | number | null;
+  newValue: string | number | null;
+  detectedAt: string;
 }
 
 export interface DrawData {
   fetchedAt: string;
   source: string;
   rounds: DrawRound[];
+  history?: RoundRevision[];
+}
+
+/** One entry of src/data/categories.json; rules are tried in file order */
+export interface CategoryRule {
+  id: string; // short id used in URLs and file names
+  name: string;
+  pattern: string; // case-insensitive regular expression tested against roundType
+  color: string;
+  order: number; // legend / display order
+  program?: DrawProgram; // stream for general and program draws; rules without one are category families named by id
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  color?: string;
+  order: number;
+  matched: boolean; // false when no rule matched and the raw roundType is used
+}
+
+/** Invitations planned for a calendar year, overall or for one category (targets.json) */
+export interface AnnualTarget {
+  year: number;
+  invitations: number;
+  category?: string; // category id; omitted for all categories together
+  label?: string;
+}
+
+// ========== Static JSON API (dist/api/v1) ==========
+
+/** A round as published by the API; the pool distribution lives in distributions.json */
+export interface ApiRound extends Omit<DrawRound, "distribution"> {
+  category: string; // category id from categories.json
+  categoryName: string;
+}
+
+export interface ApiCategorySummary {
+  id: string;
+  name: string;
+  color: string;
+  rounds: number;
+  href: string; // relative to api/v1/
+}
+
+export interface ApiCategoryStats {
+  rounds: number;
+  firstDate: string;
+  lastDate: string;
+  minCrs: number;
+  maxCrs: number;
+  medianCrs: number;
+  totalInvitations: number;
+}
+
+interface ApiFile {
+  apiVersion: 1;
+  generatedAt: string;
+  fetchedAt: string; // when the underlying IRCC data was downloaded
+}
+
+/** api/v1/index.json */
+export interface ApiIndexFile extends ApiFile {
+  endpoints: Record<string, string>;
+  categories: ApiCategorySummary[];
+}
+
+/** api/v1/rounds.json — every round, ordered by round number */
+export interface ApiRoundsFile extends ApiFile {
+  source: string;
+  rounds: ApiRound[];
+}
+
+/** api/v1/latest.json — most recent round overall and per category, plus the latest pool */
+export interface ApiLatestFile extends ApiFile {
+  latest: ApiRound;
+  byCategory: Record<string, ApiRound>;
+  distribution: DistributionSnapshot | null;
+}
+
+/** api/v1/categories/<id>.json */
+export interface ApiCategoryFile extends ApiFile {
+  category: Omit<ApiCategorySummary, "rounds" | "href">;
+  stats: ApiCategoryStats;
+  rounds: ApiRound[];
+}
+
+/** api/v1/distributions.json — pool snapshots, oldest first */
+export interface ApiDistributionsFile extends ApiFile {
+  ranges: string[]; // range labels, highest first
+  snapshots: DistributionSnapshot[];
+}
+
+// ========== Round alerts (npm run notify) ==========
+
+/** A new round matches when every condition that is set holds */
+export interface AlertRule {
+  id: string;
+  categories?: string[]; // category ids from categories.json; any category if omitted
+  crsAtOrBelow?: number;
+  invitationsAbove?: number;
+  webhooks: string[]; // names from AlertConfig.webhooks
+}
+
+export interface AlertConfig {
+  // name -> URL, or "env:NAME" to read the URL from an environment variable
+  webhooks: Record<string, string>;
+  rules: AlertRule[];
+}
+
+/** Body POSTed to a webhook once per matching round */
+export interface AlertPayload {
+  event: "round.matched";
+  rules: string[]; // ids of every rule that sent the round to this webhook
+  round: {
+    number: number;
+    date: string;
+    roundType: string;
+    category: string;
+    categoryName: string;
+    crsScore: number;
+    invitationsIssued: number;
+    tieBreakingCutoff?: string;
+  };
+  sentAt: string;
+}
+
+/** Deliveries already made, so each round is announced once per webhook */
+export interface AlertLedger {
+  sent: Array<{ key: string; sentAt: string }>;
+}
+
+// ========== Projection backtest (dist/backtest.json) ==========
+
+/** Projection modes on the page */
+export type ProjectionMethod = "linear" | "moving-avg" | "poly";
+
+export interface BacktestMetrics {
+  forecasts: number;
+  mae: number; // mean absolute error: CRS points for cutoffs, days for pool-aware crossing dates
+  rmse: number;
+  hitRate: number; // share of forecasts within the tolerance (hitTolerance or hitToleranceDays)
+}
+
+export type BacktestMethodMetrics = Partial<Record<ProjectionMethod, BacktestMetrics>>;
+
+export interface BacktestCategoryResult {
+  category: string;
+  name: string;
+  rounds: number;
+  methods: BacktestMethodMetrics; // forecast cutoffs
+  poolAware: BacktestMethodMetrics; // the score cards' pool-aware crossing dates, per trend mode
+}
+
+export interface BacktestReport {
+  generatedAt: string;
+  horizon: number; // rounds forecast from each origin
+  minTrain: number; // rounds of history before the first origin
+  hitTolerance: number; // CRS points
+  hitToleranceDays: number;
+  overall: BacktestMethodMetrics;
+  poolAwareOverall: BacktestMethodMetrics;
+  categories: BacktestCategoryResult[];
+}
+
+// ========== Draw cadence ==========
+
+/** Days between consecutive draw dates; low..high is the usual range (Tukey fences) */
+export interface CadenceGapStats {
+  count: number;
+  median: number;
+  q1: number;
+  q3: number;
+  min: number;
+  max: number;
+  low: number;
+  high: number;
+}
+
+export interface CadenceGap {
+  from: string;
+  to: string;
+  days: number;
+  unusual?: "long" | "short";
+}
+
+export interface CadenceSummary {
+  draws: number;
+  firstDate: string;
+  lastDate: string;
+  gapStats: CadenceGapStats | null;
+  recentGaps: CadenceGap[];
+  // Next draw expected between lastDate + q1 and lastDate + q3
+  nextWindow: { from: string; to: string } | null;
+  weekdays: number[]; // draw dates per weekday, Sunday first
+  perMonth: Record<string, number>; // "2026-07" -> draw dates
+}
+
+export interface CadenceCategory extends CadenceSummary {
+  category: string;
+  name: string;
+}
+
+export interface CadenceReport {
+  generatedAt: string;
+  lookbackDays: number;
+  overall: CadenceSummary; // draws of any category
+  categories: CadenceCategory[];
+}
+
+// ========== Pool inflow between distribution snapshots ==========
+
+/** Estimated movement of the pool between two consecutive snapshots, by score range label */
+export interface PoolFlow {
+  from: string; // as-of dates, YYYY-MM-DD
+  to: string;
+  days: number;
+  rounds: number; // rounds drawn in between
+  invitations: number;
+  net: Record<string, number>; // change in candidates
+  invited: Record<string, number>; // invitations attributed to the range
+  inflow: Record<string, number>; // net + invited: new profiles and score changes, less expiries
+  weeklyInflow: Record<string, number>;
+}
+
+// ========== Query command ==========
+
+/** How a score fared against a category's rounds (query cleared) */
+export interface QueryClearedRow {
+  category: string;
+  name: string;
+  rounds: number; // rounds in the period
+  cleared: number; // rounds with a cutoff at or below the score
+  atCutoff: number; // of those, rounds where the score equals the cutoff (tie-breaking applies)
+  lastCleared: string | null; // date of the latest cleared round
+  lowestCutoff: number | null;
+  clearedRounds: QueryClearedRound[]; // the cleared rounds, newest first
+}
+
+/** One round a score cleared (query cleared) */
+export interface QueryClearedRound {
+  number: number;
+  date: string;
+  crsScore: number;
+}
+
+/** A category's most recent round (query latest) */
+export interface QueryLatestRow {
+  category: string;
+  name: string;
+  number: number;
+  date: string;
+  crsScore: number;
+  invitationsIssued: number;
+}
+
+/** Candidates at or above a score in one pool snapshot (query pool) */
+export interface QueryPoolResult {
+  score: number;
+  date: string; // round that published the snapshot
+  asOfDate: string;
+  above: number; // density model estimate
+  aboveLow: number; // range the within-range spread allows
+  aboveHigh: number;
+  total: number;
+  share: number; // above / total
 }
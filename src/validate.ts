@@ -0,0 +1,140 @@
+/**
+ * Validation of the raw IRCC payload (ee_rounds_123_en.json) before it is parsed.
+ * The parser is deliberately forgiving, so anything it would silently coerce
+ * (unparsable numbers to 0, unparsable dates to the raw string) is caught here.
+ */
+
+export type Severity = "error" | "warning";
+
+export interface ValidationIssue {
+  severity: Severity;
+  roundKey: string; // key of the round inside payload.rounds
+  drawNumber: string;
+  field: string;
+  message: string;
+}
+
+const DISTRIBUTION_KEYS = Array.from({ length: 18 }, (_, i) => `dd${i + 1}`);
+const REQUIRED_KEYS = ["drawNumber", "drawDateFull", "drawCRS", "drawSize", ...DISTRIBUTION_KEYS];
+
+// Values IRCC uses for "no data" in rounds published before pool snapshots existed
+const EMPTY_VALUES = new Set(["", "undefined", "N/A"]);
+
+// dd3 and dd9 are subtotals of the ranges listed after them
+const SUBTOTALS: Record<string, string[]> = {
+  dd3: ["dd4", "dd5", "dd6", "dd7", "dd8"],
+  dd9: ["dd10", "dd11", "dd12", "dd13", "dd14"],
+};
+const RANGE_KEYS = ["dd1", "dd2", "dd3", "dd9", "dd15", "dd16", "dd17"];
+
+function isNumeric(value: string): boolean {
+  return /^\d+$/.test(value.replace(/,/g, "").trim());
+}
+
+function toNumber(value: string): number {
+  return parseInt(value.replace(/,/g, "").trim(), 10);
+}
+
+function validateRound(key: string, round: Record<string, unknown>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const drawNumber = typeof round.drawNumber === "string" ? round.drawNumber : "?";
+  const report = (severity: Severity, field: string, message: string) =>
+    issues.push({ severity, roundKey: key, drawNumber, field, message });
+
+  for (const field of REQUIRED_KEYS) {
+    if (!(field in round)) report("error", field, "missing");
+    else if (typeof round[field] !== "string") {
+      report("error", field, `expected a string, got ${JSON.stringify(round[field])}`);
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  const str = round as Record<string, string>;
+
+  if (!isNumeric(str.drawNumber) || toNumber(str.drawNumber) <= 0) {
+    report("error", "drawNumber", `expected a positive integer, got "${str.drawNumber}"`);
+  }
+
+  const date = new Date(str.drawDateFull);
+  if (isNaN(date.getTime())) {
+    report("error", "drawDateFull", `unparsable date "${str.drawDateFull}"`);
+  } else if (date.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+    report("warning", "drawDateFull", `date ${str.drawDateFull} is in the future`);
+  }
+
+  if (!isNumeric(str.drawCRS)) {
+    report("error", "drawCRS", `expected a number, got "${str.drawCRS}"`);
+  } else if (toNumber(str.drawCRS) > 1200) {
+    report("error", "drawCRS", `CRS ${str.drawCRS} is above the 1200 maximum`);
+  }
+
+  if (!isNumeric(str.drawSize)) {
+    report("error", "drawSize", `expected a number, got "${str.drawSize}"`);
+  } else if (toNumber(str.drawSize) === 0) {
+    report("warning", "drawSize", "no invitations issued");
+  }
+
+  if (!str.drawName && !str.drawText2) {
+    report("warning", "drawName", "no round type (drawName and drawText2 are empty)");
+  }
+
+  const cutOff = typeof round.drawCutOff === "string" ? round.drawCutOff : "";
+  if (cutOff && !EMPTY_VALUES.has(cutOff) && isNaN(new Date(cutOff.replace(/\s+at\s+/i, " ")).getTime())) {
+    report("warning", "drawCutOff", `unparsable tie-breaking rule "${cutOff}"`);
+  }
+
+  // Distribution: either all placeholders, or all numeric and internally consistent
+  const badDist = DISTRIBUTION_KEYS.filter(
+    (k) => !EMPTY_VALUES.has(str[k]) && !isNumeric(str[k])
+  );
+  badDist.forEach((k) => report("error", k, `expected a number, got "${str[k]}"`));
+
+  const total = isNumeric(str.dd18) ? toNumber(str.dd18) : 0;
+  if (badDist.length === 0 && total > 0) {
+    const value = (k: string) => (isNumeric(str[k]) ? toNumber(str[k]) : 0);
+    for (const [sub, parts] of Object.entries(SUBTOTALS)) {
+      const sum = parts.reduce((s, k) => s + value(k), 0);
+      if (sum !== value(sub)) {
+        report("warning", sub, `subtotal ${value(sub)} does not match ${parts.join("+")} = ${sum}`);
+      }
+    }
+    const sum = RANGE_KEYS.reduce((s, k) => s + value(k), 0);
+    if (sum !== total) {
+      report("warning", "dd18", `total ${total} does not match the sum of ranges ${sum}`);
+    }
+    if (!str.drawDistributionAsOn) {
+      report("warning", "drawDistributionAsOn", "distribution has no as-of date");
+    }
+  }
+
+  return issues;
+}
+
+/** Check the raw payload shape, returning every problem found */
+export function validatePayload(json: unknown): ValidationIssue[] {
+  const report = (message: string): ValidationIssue[] => [
+    { severity: "error", roundKey: "", drawNumber: "", field: "rounds", message },
+  ];
+
+  if (!json || typeof json !== "object") return report("payload is not a JSON object");
+  const rounds = (json as Record<string, unknown>).rounds;
+  if (!rounds || typeof rounds !== "object") return report("payload has no rounds object");
+
+  const entries = Object.entries(rounds as Record<string, unknown>);
+  if (entries.length === 0) return report("payload contains no rounds");
+
+  const issues: ValidationIssue[] = [];
+  for (const [key, round] of entries) {
+    if (!round || typeof round !== "object") {
+      issues.push({ severity: "error", roundKey: key, drawNumber: "?", field: "", message: "round is not an object" });
+      continue;
+    }
+    issues.push(...validateRound(key, round as Record<string, unknown>));
+  }
+  return issues;
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  const where = issue.roundKey ? `round #${issue.drawNumber} (key ${issue.roundKey})` : "payload";
+  return `${issue.severity.toUpperCase()} ${where} ${issue.field}: ${issue.message}`;
+}
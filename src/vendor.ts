@@ -0,0 +1,60 @@
+import { readFileSync, writeFileSync, mkdirSync, rmSync } from "fs";
+import { createHash } from "crypto";
+import { join, dirname, basename } from "path";
+import { fileURLToPath } from "url";
+
+const NODE_MODULES = join(dirname(fileURLToPath(import.meta.url)), "..", "node_modules");
+
+/** Browser builds of the chart libraries, in load order. Versions are pinned in package.json. */
+const VENDOR_SCRIPTS = [
+  { pkg: "chart.js", file: "dist/chart.umd.min.js" },
+  // The bundle build includes date-fns itself
+  { pkg: "chartjs-adapter-date-fns", file: "dist/chartjs-adapter-date-fns.bundle.min.js" },
+  { pkg: "chartjs-plugin-annotation", file: "dist/chartjs-plugin-annotation.min.js" },
+];
+
+interface VendorScript {
+  lib: string; // "chart.js@4.5.1"
+  file: string;
+  source: string;
+}
+
+function loadVendorScripts(): VendorScript[] {
+  return VENDOR_SCRIPTS.map(({ pkg, file }) => {
+    const dir = join(NODE_MODULES, pkg);
+    const { version } = JSON.parse(readFileSync(join(dir, "package.json"), "utf-8")) as { version: string };
+    return { lib: `${pkg}@${version}`, file, source: readFileSync(join(dir, file), "utf-8") };
+  });
+}
+
+/** <script> tags for the libraries, given the path from a page to the site root ("", "../../") */
+export type VendorTags = (base?: string) => string;
+
+/** The libraries inlined, for pages that work from disk with no network */
+export function inlineVendorScripts(): VendorTags {
+  const tags = loadVendorScripts()
+    .map(({ lib, source }) => `<script data-lib="${lib}">${source.replace(/<\/script/gi, "<\\/script")}</script>`)
+    .join("\n  ");
+  return () => tags;
+}
+
+/**
+ * Write the libraries to `<outDir>/vendor/` under content-hashed names, for <script>
+ * tags with Subresource Integrity hashes. The names only change when a library does,
+ * so browsers keep them cached across data updates.
+ */
+export function writeVendorAssets(outDir: string): VendorTags {
+  const vendorDir = join(outDir, "vendor");
+  rmSync(vendorDir, { recursive: true, force: true });
+  mkdirSync(vendorDir, { recursive: true });
+  const assets = loadVendorScripts().map(({ lib, file, source }) => {
+    const hash = createHash("sha256").update(source).digest("hex").slice(0, 10);
+    const name = basename(file).replace(/(\.min)?\.js$/, `.${hash}.js`);
+    writeFileSync(join(vendorDir, name), source);
+    return { lib, name, integrity: `sha384-${createHash("sha384").update(source).digest("base64")}` };
+  });
+  return (base = "") =>
+    assets
+      .map(({ lib, name, integrity }) => `<script data-lib="${lib}" src="${base}vendor/${name}" integrity="${integrity}"></script>`)
+      .join("\n  ");
+}